@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+import { writeFile } from 'fs/promises';
+import { createClient } from './index';
+import { generateTypes } from './lib/typegen';
+
+const USAGE = `Usage: orbitnest-typegen [options]
+
+Generate TypeScript types for an OrbitNest project's database tables.
+
+Options:
+  --project <slug>   Project slug (default: $ORBITNEST_PROJECT_SLUG)
+  --api-key <key>    API key (default: $ORBITNEST_API_KEY)
+  --url <url>        API base URL (default: $ORBITNEST_URL or https://api.orbitnest.io)
+  --tables <a,b>     Only generate these tables
+  --type-name <name> Name of the exported type (default: Database)
+  --out <file>       Write to a file instead of stdout
+  -h, --help         Show this help
+`;
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      args.help = 'true';
+    } else if (arg.startsWith('--')) {
+      const [key, inline] = arg.slice(2).split('=', 2);
+      args[key] = inline ?? argv[++i] ?? '';
+    }
+  }
+  return args;
+}
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  const projectSlug = args.project || process.env.ORBITNEST_PROJECT_SLUG;
+  const apiKey = args['api-key'] || process.env.ORBITNEST_API_KEY;
+  if (!projectSlug || !apiKey) {
+    process.stderr.write(`Missing project slug or API key.\n\n${USAGE}`);
+    return 1;
+  }
+
+  const client = createClient({
+    projectSlug,
+    apiKey,
+    baseUrl: args.url || process.env.ORBITNEST_URL,
+  });
+
+  const { data, error } = await generateTypes(client.db, {
+    tables: args.tables ? args.tables.split(',').map(t => t.trim()).filter(Boolean) : undefined,
+    typeName: args['type-name'],
+  });
+
+  if (error) {
+    process.stderr.write(`Failed to generate types: ${error.message}${error.code ? ` (${error.code})` : ''}\n`);
+    return 1;
+  }
+
+  if (args.out) {
+    await writeFile(args.out, data);
+    process.stderr.write(`Wrote ${args.out}\n`);
+  } else {
+    process.stdout.write(data);
+  }
+  return 0;
+}
+
+main().then(
+  code => process.exit(code),
+  err => {
+    process.stderr.write(`${err instanceof Error ? err.stack : err}\n`);
+    process.exit(1);
+  }
+);
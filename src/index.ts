@@ -1,30 +1,76 @@
 import { HttpClient } from './lib/client';
 import { DatabaseClient } from './lib/database';
 import { FunctionsClient } from './lib/functions';
-import { AuthClient } from './lib/auth';
+import { AuthClient, sessionFromToken } from './lib/auth';
 import { LoggingClient } from './lib/logging';
 import { EnvironmentClient } from './lib/environment';
 import { StorageClient } from './lib/storage';
-import type { OrbitNestConfig } from './types';
+import { withThrowOnError } from './lib/errors';
+import type { OrbitNestConfig, RateLimitInfo, Middleware, GenericDatabase, AuthUser } from './types';
 
 export * from './types';
 export * from './lib/logging';
 export * from './lib/environment';
 export * from './lib/storage';
+export * from './lib/auth-admin';
+export {
+  ErrorCodes,
+  OrbitNestError,
+  AuthError,
+  NotFoundError,
+  ConflictError,
+  RateLimitError,
+  TimeoutError,
+  NetworkError,
+  ValidationError,
+  TransactionError,
+  toOrbitNestError,
+  throwOnError,
+} from './lib/errors';
+export type { ErrorCode } from './lib/errors';
+export { escapeIdentifier, escapeLiteral, formatQuery, SqlEscapeError, SqlJson } from './lib/escape';
+export type { QueryParams } from './lib/escape';
+export { sql, SqlFragment } from './lib/sql';
+export { Transaction } from './lib/transaction';
+export type { IterateOptions } from './lib/paginate';
+export type { Statement } from './lib/transaction';
+export type { SqlTag } from './lib/sql';
+export { generateTypes, renderTypes, pgTypeToTs } from './lib/typegen';
+export type { GenerateTypesOptions } from './lib/typegen';
+export { decodeJwt, JwtError } from './lib/jwt';
+export type { DecodedJwt } from './lib/jwt';
+export { SignedUrlVerifier } from './lib/signed-url';
+export type { SignedUrlClaims, SignedUrlVerifierOptions, VerifiedSignedUrl, VerifySignedUrlOptions } from './lib/signed-url';
+export { MemorySessionStorage, FileSessionStorage } from './lib/session-storage';
+export { createHttpAuth, expressAuth, fastifyAuth } from './lib/server';
+export type { AuthMiddlewareOptions, RequestAuth, RequestUser } from './lib/server';
 
-export interface OrbitNestClient {
-  db: DatabaseClient;
+export interface OrbitNestClient<DB extends GenericDatabase = GenericDatabase> {
+  db: DatabaseClient<DB>;
   functions: FunctionsClient;
   auth: AuthClient;
   logs: LoggingClient;
   env: EnvironmentClient;
   storage: StorageClient;
+  /** Latest rate-limit quota reported by the API */
+  readonly rateLimit: RateLimitInfo | null;
+  /** Register a middleware for all subsequent requests */
+  use(middleware: Middleware): OrbitNestClient<DB>;
+  /**
+   * Create a view of this client that sends a user's access token on every request,
+   * e.g. one per incoming server request. It shares the middleware, throttle and
+   * rate-limit state. The token is not refreshed.
+   */
+  asUser(accessToken: string, user?: AuthUser): OrbitNestClient<DB>;
 }
 
 /**
  * Create an OrbitNest client instance
+ * Pass a generated `Database` type to get typed rows from `db.from()`
  */
-export function createClient(config: OrbitNestConfig): OrbitNestClient {
+export function createClient<DB extends GenericDatabase = GenericDatabase>(
+  config: OrbitNestConfig
+): OrbitNestClient<DB> {
   if (!config.projectSlug) {
     throw new Error('OrbitNest: projectSlug is required');
   }
@@ -33,14 +79,37 @@ export function createClient(config: OrbitNestConfig): OrbitNestClient {
   }
 
   const httpClient = new HttpClient(config);
+  return buildClient<DB>(config, httpClient, new AuthClient(httpClient, config.auth));
+}
+
+function buildClient<DB extends GenericDatabase>(
+  config: OrbitNestConfig,
+  httpClient: HttpClient,
+  auth: AuthClient
+): OrbitNestClient<DB> {
+  const wrap = <T extends object>(client: T): T => (config.throwOnError ? withThrowOnError(client) : client);
 
   return {
-    db: new DatabaseClient(httpClient),
-    functions: new FunctionsClient(httpClient),
-    auth: new AuthClient(httpClient),
-    logs: new LoggingClient(httpClient),
-    env: new EnvironmentClient(httpClient),
-    storage: new StorageClient(httpClient),
+    db: wrap(new DatabaseClient<DB>(httpClient)),
+    functions: wrap(new FunctionsClient(httpClient)),
+    auth: wrap(auth),
+    logs: wrap(new LoggingClient(httpClient)),
+    env: wrap(new EnvironmentClient(httpClient)),
+    storage: wrap(new StorageClient(httpClient)),
+    get rateLimit() {
+      return httpClient.getRateLimit();
+    },
+    use(middleware: Middleware) {
+      httpClient.use(middleware);
+      return this;
+    },
+    asUser(accessToken: string, user?: AuthUser) {
+      const scoped = httpClient.scope();
+      // The caller owns the token, so don't refresh, persist or verify it here
+      const scopedAuth = new AuthClient(scoped, { autoRefresh: false });
+      scopedAuth.setSession(sessionFromToken(accessToken, user));
+      return buildClient<DB>(config, scoped, scopedAuth);
+    },
   };
 }
 
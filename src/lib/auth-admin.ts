@@ -0,0 +1,278 @@
+import type { HttpClient } from './client';
+import type { ApiResult, AuthUser, RequestOptions, SignalOptions } from '../types';
+
+export interface AdminUser extends AuthUser {
+  banned?: boolean;
+  banned_until?: string | null;
+  last_sign_in_at?: string | null;
+}
+
+export interface AdminSession {
+  id: string;
+  user_id: string;
+  created_at: string;
+  expires_at: string;
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  action: string;
+  user_id: string | null;
+  ip_address?: string;
+  metadata?: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface AuthConfig {
+  site_url?: string;
+  disable_signup?: boolean;
+  email_confirmation_required?: boolean;
+  jwt_expiry?: number;
+  [key: string]: unknown;
+}
+
+export interface AuthStats {
+  total_users: number;
+  active_sessions: number;
+  [key: string]: unknown;
+}
+
+export interface AdminListOptions extends SignalOptions {
+  page?: number;
+  limit?: number;
+}
+
+export interface ListUsersOptions extends AdminListOptions {
+  /** Filter by email */
+  search?: string;
+}
+
+export interface ListSessionsOptions extends AdminListOptions {
+  userId?: string;
+}
+
+export interface ListAuditLogsOptions extends AdminListOptions {
+  userId?: string;
+  action?: string;
+  since?: Date;
+}
+
+export interface AdminCreateUserOptions {
+  email: string;
+  password?: string;
+  metadata?: Record<string, unknown>;
+  /** Mark the email as verified (default true) */
+  emailConfirmed?: boolean;
+}
+
+export interface AdminUpdateUserOptions {
+  email?: string;
+  password?: string;
+  metadata?: Record<string, unknown>;
+  emailConfirmed?: boolean;
+}
+
+export interface BanUserOptions {
+  reason?: string;
+  /** Lift the ban automatically at this time (default: banned until unbanned) */
+  until?: Date;
+}
+
+/**
+ * User management for backend services
+ * Requires the project's service_role key; anon keys get FORBIDDEN or UNAUTHORIZED errors.
+ */
+export class AuthAdminClient {
+  constructor(private client: HttpClient) {}
+
+  private get basePath(): string {
+    return `/api/projects/${this.client.getProjectSlug()}/auth`;
+  }
+
+  private async request<T>(path: string, options: RequestOptions = {}): Promise<ApiResult<T>> {
+    const result = await this.client.request<T>(`${this.basePath}${path}`, options);
+
+    if (result.error && (result.error.status === 401 || result.error.status === 403)) {
+      return {
+        data: null,
+        error: {
+          ...result.error,
+          message: `Admin endpoints require the service_role key: ${result.error.message}`,
+        },
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * List users, one page at a time
+   */
+  async listUsers(options: ListUsersOptions = {}): Promise<ApiResult<{ users: AdminUser[]; total: number }>> {
+    const params = pageParams(options);
+    if (options.search) params.set('search', options.search);
+
+    return this.request<{ users: AdminUser[]; total: number }>(`/users${toQuery(params)}`, {
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Create a user without email verification
+   */
+  async createUser(options: AdminCreateUserOptions, { signal }: SignalOptions = {}): Promise<ApiResult<AdminUser>> {
+    return this.request<AdminUser>('/users', {
+      method: 'POST',
+      body: {
+        email: options.email,
+        password: options.password,
+        user_metadata: options.metadata,
+        email_confirmed: options.emailConfirmed ?? true,
+      },
+      signal,
+    });
+  }
+
+  /**
+   * Update any user
+   */
+  async updateUser(
+    userId: string,
+    options: AdminUpdateUserOptions,
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<AdminUser>> {
+    return this.request<AdminUser>(`/users/${encodeURIComponent(userId)}`, {
+      method: 'PUT',
+      body: {
+        email: options.email,
+        password: options.password,
+        user_metadata: options.metadata,
+        email_confirmed: options.emailConfirmed,
+      },
+      signal,
+    });
+  }
+
+  /**
+   * Ban a user and revoke their sessions
+   */
+  async banUser(
+    userId: string,
+    options: BanUserOptions = {},
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<AdminUser>> {
+    return this.request<AdminUser>(`/users/${encodeURIComponent(userId)}/ban`, {
+      method: 'POST',
+      body: {
+        banned: true,
+        reason: options.reason,
+        banned_until: options.until?.toISOString(),
+      },
+      signal,
+    });
+  }
+
+  /**
+   * Lift a ban
+   */
+  async unbanUser(userId: string, { signal }: SignalOptions = {}): Promise<ApiResult<AdminUser>> {
+    return this.request<AdminUser>(`/users/${encodeURIComponent(userId)}/ban`, {
+      method: 'POST',
+      body: { banned: false },
+      signal,
+    });
+  }
+
+  /**
+   * Set a new password for a user, or let the server send a reset email when none is given
+   */
+  async resetPassword(
+    userId: string,
+    options: { password?: string } = {},
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<{ success: boolean }>> {
+    return this.request<{ success: boolean }>(`/users/${encodeURIComponent(userId)}/reset-password`, {
+      method: 'POST',
+      body: { password: options.password },
+      signal,
+    });
+  }
+
+  /**
+   * Delete a user
+   */
+  async deleteUser(userId: string, { signal }: SignalOptions = {}): Promise<ApiResult<{ success: boolean }>> {
+    return this.request<{ success: boolean }>(`/users/${encodeURIComponent(userId)}`, {
+      method: 'DELETE',
+      signal,
+    });
+  }
+
+  /**
+   * Get the project's auth configuration
+   */
+  async getConfig({ signal }: SignalOptions = {}): Promise<ApiResult<AuthConfig>> {
+    return this.request<AuthConfig>('/config', { signal });
+  }
+
+  /**
+   * Update the project's auth configuration
+   */
+  async updateConfig(config: Partial<AuthConfig>, { signal }: SignalOptions = {}): Promise<ApiResult<AuthConfig>> {
+    return this.request<AuthConfig>('/config', {
+      method: 'PUT',
+      body: config,
+      signal,
+    });
+  }
+
+  /**
+   * Get user and session counts
+   */
+  async getStats({ signal }: SignalOptions = {}): Promise<ApiResult<AuthStats>> {
+    return this.request<AuthStats>('/stats', { signal });
+  }
+
+  /**
+   * List active sessions, optionally for one user
+   */
+  async listSessions(
+    options: ListSessionsOptions = {}
+  ): Promise<ApiResult<{ sessions: AdminSession[]; total: number }>> {
+    const params = pageParams(options);
+    if (options.userId) params.set('user_id', options.userId);
+
+    return this.request<{ sessions: AdminSession[]; total: number }>(`/sessions${toQuery(params)}`, {
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * List audit log entries, newest first
+   */
+  async listAuditLogs(
+    options: ListAuditLogsOptions = {}
+  ): Promise<ApiResult<{ logs: AuditLogEntry[]; total: number }>> {
+    const params = pageParams(options);
+    if (options.userId) params.set('user_id', options.userId);
+    if (options.action) params.set('action', options.action);
+    if (options.since) params.set('since', options.since.toISOString());
+
+    return this.request<{ logs: AuditLogEntry[]; total: number }>(`/audit-logs${toQuery(params)}`, {
+      signal: options.signal,
+    });
+  }
+}
+
+function pageParams(options: AdminListOptions): URLSearchParams {
+  const params = new URLSearchParams();
+  if (options.page) params.set('page', options.page.toString());
+  if (options.limit) params.set('limit', options.limit.toString());
+  return params;
+}
+
+function toQuery(params: URLSearchParams): string {
+  return params.toString() ? `?${params.toString()}` : '';
+}
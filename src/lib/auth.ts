@@ -1,26 +1,148 @@
 import type { HttpClient } from './client';
+import { AuthAdminClient } from './auth-admin';
+import { decodeJwt, fetchJwks, JwtError, JwtVerifier } from './jwt';
 import type {
   AuthSession,
   AuthUser,
   SignUpCredentials,
+  SignUpOptions,
   SignInCredentials,
+  EmailOtpCredentials,
+  VerifyOtpOptions,
+  OtpResponse,
+  ChangePasswordOptions,
   PasswordRecoveryOptions,
   PasswordResetOptions,
   UpdateUserOptions,
+  SignalOptions,
+  AuthOptions,
+  AuthChangeEvent,
+  AuthStateChangeCallback,
+  AuthSubscription,
+  JwtClaims,
+  SessionStorage,
   ApiResult,
 } from '../types';
 
+function noSession(): ApiResult<never> {
+  return {
+    data: null,
+    error: { message: 'No active session', code: 'NO_SESSION' },
+  };
+}
+
+/**
+ * Build a session for an access token issued elsewhere, e.g. a bearer token received by a server
+ * Without a profile the user is filled in from the token claims.
+ */
+export function sessionFromToken(accessToken: string, user?: AuthUser): AuthSession {
+  let claims: JwtClaims = {};
+  try {
+    claims = decodeJwt(accessToken).payload;
+  } catch {
+    // Opaque tokens carry no claims
+  }
+
+  return {
+    access_token: accessToken,
+    refresh_token: '',
+    expires_in: 0,
+    expires_at: typeof claims.exp === 'number' ? claims.exp : undefined,
+    token_type: 'bearer',
+    user: user ?? {
+      id: claims.sub ?? '',
+      email: claims.email ?? '',
+      user_metadata: claims.user_metadata,
+      created_at: '',
+      updated_at: '',
+    },
+  };
+}
+
+function toJwtError(err: unknown): ApiResult<never> {
+  if (err instanceof JwtError) {
+    return { data: null, error: { message: err.message, code: err.code } };
+  }
+  throw err;
+}
+
+// setTimeout overflows above 2^31 - 1 ms (about 24.8 days)
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
 export class AuthClient {
+  /** User management; requires the service_role key */
+  readonly admin: AuthAdminClient;
   private session: AuthSession | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshing: Promise<ApiResult<AuthSession>> | null = null;
+  private autoRefresh: boolean;
+  private refreshSkew: number;
+  private storage: SessionStorage | null;
+  private storageKey: string;
+  private restoring: Promise<void>;
+  private persisting: Promise<void> = Promise.resolve();
+  private listeners = new Set<AuthStateChangeCallback>();
+  private verifier: JwtVerifier | null = null;
+
+  constructor(
+    private client: HttpClient,
+    options: AuthOptions = {}
+  ) {
+    this.admin = new AuthAdminClient(client);
+    this.autoRefresh = options.autoRefresh ?? true;
+    this.refreshSkew = options.refreshSkew ?? 60;
+    this.storage = options.storage ?? null;
+    this.storageKey = options.storageKey ?? `orbitnest.${client.getProjectSlug()}.session`;
+    this.restoring = this.restoreSession();
+
+    if (options.jwt) {
+      if (!options.jwt.secret && !options.jwt.jwksUrl && !options.jwt.jwks) {
+        throw new Error('OrbitNest: auth.jwt needs a secret, jwksUrl or jwks');
+      }
+      this.verifier = new JwtVerifier(options.jwt, (url, signal) =>
+        // A key set hosted elsewhere gets a bare request, never the API key or middleware
+        /^https?:\/\//i.test(url) ? fetchJwks(client.getFetch(), url, signal) : client.request(url, { signal })
+      );
+    }
 
-  constructor(private client: HttpClient) {}
+    client.setSessionHandler({
+      getAccessToken: () => this.getAccessToken(),
+      refresh: async () => !(await this.refreshSession()).error,
+    });
+  }
 
   private get basePath(): string {
     return `/api/projects/${this.client.getProjectSlug()}/auth`;
   }
 
+  /**
+   * Wait until the persisted session has been loaded and return the current session
+   */
+  async initialize(): Promise<AuthSession | null> {
+    await this.restoring;
+    return this.session;
+  }
+
+  /**
+   * Listen for sign-in, refresh, sign-out and user changes
+   *
+   * @example
+   * const { unsubscribe } = client.auth.onAuthStateChange((event, session) => {
+   *   if (event === 'SESSION_EXPIRED') redirectToLogin();
+   * });
+   */
+  onAuthStateChange(callback: AuthStateChangeCallback): AuthSubscription {
+    this.listeners.add(callback);
+    return {
+      unsubscribe: () => {
+        this.listeners.delete(callback);
+      },
+    };
+  }
+
   /**
    * Get the current session
+   * Returns null until a persisted session has been restored; await initialize() first when using storage.
    */
   getSession(): AuthSession | null {
     return this.session;
@@ -33,39 +155,135 @@ export class AuthClient {
     return this.session?.user || null;
   }
 
+  /**
+   * Get the current access token, refreshing it first if it is about to expire
+   */
+  async getAccessToken(): Promise<string | null> {
+    await this.restoring;
+    if (!this.session) {
+      return null;
+    }
+    if (this.autoRefresh && this.expiresSoon()) {
+      await this.refreshSession();
+    }
+    return this.session?.access_token ?? null;
+  }
+
+  /**
+   * Read the claims of a token without verifying it
+   * Use verifyToken() before trusting the claims.
+   */
+  decodeToken<T extends JwtClaims = JwtClaims>(token: string): ApiResult<T> {
+    try {
+      return { data: decodeJwt<T>(token).payload, error: null };
+    } catch (err) {
+      return toJwtError(err);
+    }
+  }
+
+  /**
+   * Verify a token's signature, expiry, issuer and audience locally using `auth.jwt`
+   *
+   * @example
+   * const { data: claims, error } = await client.auth.verifyToken(bearerToken);
+   * if (error) return res.status(401).end();
+   */
+  async verifyToken<T extends JwtClaims = JwtClaims>(
+    token: string,
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<T>> {
+    if (!this.verifier) {
+      return {
+        data: null,
+        error: { message: 'Configure auth.jwt with a secret or JWKS to verify tokens', code: 'NOT_CONFIGURED' },
+      };
+    }
+
+    try {
+      return { data: await this.verifier.verify<T>(token, signal), error: null };
+    } catch (err) {
+      return toJwtError(err);
+    }
+  }
+
   /**
    * Sign up with email and password - Step 1: Request OTP
-   * This sends an OTP to the user's email for verification
+   * This sends an OTP to the user's email for verification.
+   * Pass `immediateSession: true` when the project creates the account right away and returns a session.
    */
-  async signUp(credentials: SignUpCredentials): Promise<ApiResult<{ success: boolean; message: string; email: string; expires_in: number }>> {
-    const result = await this.client.request<{ success: boolean; message: string; email: string; expires_in: number }>(`${this.basePath}/signup`, {
+  async signUp(
+    credentials: SignUpCredentials,
+    options: SignUpOptions & { immediateSession: true }
+  ): Promise<ApiResult<AuthSession>>;
+  async signUp(credentials: SignUpCredentials, options?: SignUpOptions): Promise<ApiResult<OtpResponse>>;
+  async signUp(
+    credentials: SignUpCredentials,
+    { signal, immediateSession }: SignUpOptions = {}
+  ): Promise<ApiResult<OtpResponse | AuthSession>> {
+    const result = await this.client.request<OtpResponse | AuthSession>(`${this.basePath}/signup`, {
       method: 'POST',
       body: {
         email: credentials.email,
         password: credentials.password,
         user_metadata: credentials.metadata,
       },
+      signal,
     });
 
-    // Note: No session is returned in step 1, only OTP confirmation
+    if (!immediateSession || result.error) {
+      // Note: No session is returned in step 1, only OTP confirmation
+      return result;
+    }
+
+    if (!('access_token' in result.data)) {
+      return {
+        data: null,
+        error: {
+          message: 'Sign up did not return a session; the project may require email verification',
+          code: 'INVALID_RESPONSE',
+          details: result.data,
+        },
+      };
+    }
+
+    this.storeSession(result.data, 'SIGNED_UP');
     return result;
   }
 
+  /**
+   * Passwordless sign up - Step 1: Request OTP
+   * Complete the registration with verifySignUp.
+   */
+  async signUpWithEmail(
+    credentials: EmailOtpCredentials,
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<OtpResponse>> {
+    return this.client.request<OtpResponse>(`${this.basePath}/signup-with-email`, {
+      method: 'POST',
+      body: {
+        email: credentials.email,
+        user_metadata: credentials.metadata,
+      },
+      signal,
+    });
+  }
+
   /**
    * Verify signup with OTP - Step 2: Complete registration
    * This verifies the OTP and creates the user account
    */
-  async verifySignUp(options: { email: string; code: string }): Promise<ApiResult<AuthSession>> {
+  async verifySignUp(options: VerifyOtpOptions, { signal }: SignalOptions = {}): Promise<ApiResult<AuthSession>> {
     const result = await this.client.request<AuthSession>(`${this.basePath}/verify-signup`, {
       method: 'POST',
       body: {
         email: options.email,
         code: options.code,
       },
+      signal,
     });
 
     if (result.data) {
-      this.session = result.data;
+      this.storeSession(result.data, 'SIGNED_UP');
     }
 
     return result;
@@ -74,17 +292,50 @@ export class AuthClient {
   /**
    * Sign in with email and password
    */
-  async signIn(credentials: SignInCredentials): Promise<ApiResult<AuthSession>> {
+  async signIn(credentials: SignInCredentials, { signal }: SignalOptions = {}): Promise<ApiResult<AuthSession>> {
     const result = await this.client.request<AuthSession>(`${this.basePath}/signin`, {
       method: 'POST',
       body: {
         email: credentials.email,
         password: credentials.password,
       },
+      signal,
     });
 
     if (result.data) {
-      this.session = result.data;
+      this.storeSession(result.data, 'SIGNED_IN');
+    }
+
+    return result;
+  }
+
+  /**
+   * Passwordless sign in - Step 1: Email a one-time code
+   * Complete the sign in with verifySignIn.
+   */
+  async signInWithOtp(options: { email: string }, { signal }: SignalOptions = {}): Promise<ApiResult<OtpResponse>> {
+    return this.client.request<OtpResponse>(`${this.basePath}/signin-with-email`, {
+      method: 'POST',
+      body: { email: options.email },
+      signal,
+    });
+  }
+
+  /**
+   * Passwordless sign in - Step 2: Exchange the code for a session
+   */
+  async verifySignIn(options: VerifyOtpOptions, { signal }: SignalOptions = {}): Promise<ApiResult<AuthSession>> {
+    const result = await this.client.request<AuthSession>(`${this.basePath}/verify-signin`, {
+      method: 'POST',
+      body: {
+        email: options.email,
+        code: options.code,
+      },
+      signal,
+    });
+
+    if (result.data) {
+      this.storeSession(result.data, 'SIGNED_IN');
     }
 
     return result;
@@ -93,26 +344,28 @@ export class AuthClient {
   /**
    * Sign out the current user
    */
-  async signOut(): Promise<ApiResult<{ success: boolean }>> {
+  async signOut({ signal }: SignalOptions = {}): Promise<ApiResult<{ success: boolean }>> {
+    await this.restoring;
     if (!this.session) {
       return { data: { success: true }, error: null };
     }
 
     const result = await this.client.request<{ success: boolean }>(`${this.basePath}/signout`, {
       method: 'POST',
-      headers: {
-        Authorization: `Bearer ${this.session.access_token}`,
-      },
+      auth: 'session',
+      signal,
     });
 
-    this.session = null;
+    this.storeSession(null, 'SIGNED_OUT');
     return result;
   }
 
   /**
    * Refresh the current session
+   * Concurrent calls share a single refresh request.
    */
-  async refreshSession(): Promise<ApiResult<AuthSession>> {
+  async refreshSession({ signal }: SignalOptions = {}): Promise<ApiResult<AuthSession>> {
+    await this.restoring;
     if (!this.session?.refresh_token) {
       return {
         data: null,
@@ -120,13 +373,26 @@ export class AuthClient {
       };
     }
 
+    if (!this.refreshing) {
+      this.refreshing = this.requestRefresh(this.session, signal).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async requestRefresh(session: AuthSession, signal?: AbortSignal): Promise<ApiResult<AuthSession>> {
     const result = await this.client.request<AuthSession>(`${this.basePath}/refresh`, {
       method: 'POST',
-      body: { refresh_token: this.session.refresh_token },
+      body: { refresh_token: session.refresh_token },
+      signal,
     });
 
     if (result.data) {
-      this.session = result.data;
+      this.storeSession({ ...result.data, user: result.data.user ?? session.user }, 'TOKEN_REFRESHED');
+    } else if (result.error.status && result.error.status < 500) {
+      // The refresh token was rejected, so the session cannot be recovered
+      this.storeSession(null, 'SESSION_EXPIRED');
     }
 
     return result;
@@ -135,84 +401,192 @@ export class AuthClient {
   /**
    * Send password recovery email
    */
-  async resetPasswordForEmail(options: PasswordRecoveryOptions): Promise<ApiResult<{ success: boolean }>> {
+  async resetPasswordForEmail(
+    options: PasswordRecoveryOptions,
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<{ success: boolean }>> {
     return this.client.request<{ success: boolean }>(`${this.basePath}/recover-password`, {
       method: 'POST',
       body: { email: options.email },
+      signal,
     });
   }
 
   /**
    * Reset password with token
    */
-  async updatePassword(options: PasswordResetOptions): Promise<ApiResult<{ success: boolean }>> {
+  async updatePassword(
+    options: PasswordResetOptions,
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<{ success: boolean }>> {
     return this.client.request<{ success: boolean }>(`${this.basePath}/reset-password`, {
       method: 'POST',
       body: {
         token: options.token,
         password: options.password,
       },
+      signal,
     });
   }
 
   /**
    * Get current user profile
    */
-  async getProfile(): Promise<ApiResult<AuthUser>> {
-    if (!this.session?.access_token) {
-      return {
-        data: null,
-        error: { message: 'No active session', code: 'NO_SESSION' },
-      };
+  async getProfile({ signal }: SignalOptions = {}): Promise<ApiResult<AuthUser>> {
+    if (!(await this.hasSession())) {
+      return noSession();
     }
 
     return this.client.request<AuthUser>(`${this.basePath}/user`, {
-      headers: {
-        Authorization: `Bearer ${this.session.access_token}`,
-      },
+      auth: 'session',
+      signal,
     });
   }
 
   /**
    * Update user profile
    */
-  async updateUser(options: UpdateUserOptions): Promise<ApiResult<AuthUser>> {
-    if (!this.session?.access_token) {
-      return {
-        data: null,
-        error: { message: 'No active session', code: 'NO_SESSION' },
-      };
+  async updateUser(options: UpdateUserOptions, { signal }: SignalOptions = {}): Promise<ApiResult<AuthUser>> {
+    if (!(await this.hasSession())) {
+      return noSession();
     }
 
-    return this.client.request<AuthUser>(`${this.basePath}/user`, {
+    const result = await this.client.request<AuthUser>(`${this.basePath}/user`, {
       method: 'PUT',
       body: options,
-      headers: {
-        Authorization: `Bearer ${this.session.access_token}`,
+      auth: 'session',
+      signal,
+    });
+
+    if (result.data && this.session) {
+      this.storeSession({ ...this.session, user: result.data }, 'USER_UPDATED');
+    }
+
+    return result;
+  }
+
+  /**
+   * Replace the current user's metadata
+   */
+  async updateMetadata(
+    metadata: Record<string, unknown>,
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<AuthUser>> {
+    if (!(await this.hasSession())) {
+      return noSession();
+    }
+
+    const result = await this.client.request<AuthUser>(`${this.basePath}/user/metadata`, {
+      method: 'PUT',
+      body: { user_metadata: metadata },
+      auth: 'session',
+      signal,
+    });
+
+    if (result.data && this.session) {
+      this.storeSession({ ...this.session, user: result.data }, 'USER_UPDATED');
+    }
+
+    return result;
+  }
+
+  /**
+   * Change the password of the signed-in user
+   */
+  async changePassword(
+    options: ChangePasswordOptions,
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<{ success: boolean }>> {
+    if (!(await this.hasSession())) {
+      return noSession();
+    }
+
+    return this.client.request<{ success: boolean }>(`${this.basePath}/change-password`, {
+      method: 'POST',
+      body: {
+        oldPassword: options.oldPassword,
+        newPassword: options.newPassword,
+      },
+      auth: 'session',
+      signal,
+    });
+  }
+
+  /**
+   * Change email - Step 1: Send a verification code to the new address
+   */
+  async changeEmail(options: { email: string }, { signal }: SignalOptions = {}): Promise<ApiResult<OtpResponse>> {
+    if (!(await this.hasSession())) {
+      return noSession();
+    }
+
+    return this.client.request<OtpResponse>(`${this.basePath}/change-email`, {
+      method: 'POST',
+      body: { email: options.email },
+      auth: 'session',
+      signal,
+    });
+  }
+
+  /**
+   * Change email - Step 2: Confirm the new address with its code
+   */
+  async verifyEmailChange(options: VerifyOtpOptions, { signal }: SignalOptions = {}): Promise<ApiResult<AuthUser>> {
+    if (!(await this.hasSession())) {
+      return noSession();
+    }
+
+    const result = await this.client.request<AuthUser>(`${this.basePath}/verify-email-change`, {
+      method: 'POST',
+      body: {
+        email: options.email,
+        code: options.code,
       },
+      auth: 'session',
+      signal,
+    });
+
+    if (result.data && this.session) {
+      this.storeSession({ ...this.session, user: result.data }, 'USER_UPDATED');
+    }
+
+    return result;
+  }
+
+  /**
+   * Sign out the current user on every device
+   */
+  async signOutAll({ signal }: SignalOptions = {}): Promise<ApiResult<{ success: boolean }>> {
+    if (!(await this.hasSession())) {
+      return noSession();
+    }
+
+    const result = await this.client.request<{ success: boolean }>(`${this.basePath}/signout-all`, {
+      method: 'POST',
+      auth: 'session',
+      signal,
     });
+
+    this.storeSession(null, 'SIGNED_OUT');
+    return result;
   }
 
   /**
    * Delete current user account
    */
-  async deleteUser(): Promise<ApiResult<{ success: boolean }>> {
-    if (!this.session?.access_token) {
-      return {
-        data: null,
-        error: { message: 'No active session', code: 'NO_SESSION' },
-      };
+  async deleteUser({ signal }: SignalOptions = {}): Promise<ApiResult<{ success: boolean }>> {
+    if (!(await this.hasSession())) {
+      return noSession();
     }
 
     const result = await this.client.request<{ success: boolean }>(`${this.basePath}/user`, {
       method: 'DELETE',
-      headers: {
-        Authorization: `Bearer ${this.session.access_token}`,
-      },
+      auth: 'session',
+      signal,
     });
 
     if (result.data) {
-      this.session = null;
+      this.storeSession(null, 'USER_DELETED');
     }
 
     return result;
@@ -222,6 +596,93 @@ export class AuthClient {
    * Set session manually (e.g., from stored tokens)
    */
   setSession(session: AuthSession): void {
-    this.session = session;
+    this.storeSession(session, 'SIGNED_IN');
+  }
+
+  private async hasSession(): Promise<boolean> {
+    await this.restoring;
+    return !!this.session?.access_token;
+  }
+
+  private storeSession(session: AuthSession | null, event: AuthChangeEvent, persist = true): void {
+    this.session = session && {
+      ...session,
+      expires_at: session.expires_at ?? Math.floor(Date.now() / 1000) + session.expires_in,
+    };
+    this.scheduleRefresh();
+    if (persist) {
+      this.persistSession(this.session);
+    }
+    this.emit(event);
+  }
+
+  private emit(event: AuthChangeEvent): void {
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(event, this.session);
+      } catch {
+        // A failing listener must not break the auth flow or other listeners
+      }
+    }
+  }
+
+  private async restoreSession(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+
+    try {
+      const stored = await this.storage.get(this.storageKey);
+      // A session set while loading takes precedence over the stored one
+      if (stored && !this.session) {
+        this.storeSession(JSON.parse(stored), 'SIGNED_IN', false);
+      }
+    } catch {
+      // An unreadable store is treated as signed out
+    }
+  }
+
+  private persistSession(session: AuthSession | null): void {
+    const storage = this.storage;
+    if (!storage) {
+      return;
+    }
+
+    // Writes are queued so the store always ends up with the latest session
+    this.persisting = this.persisting
+      .then(() => (session ? storage.set(this.storageKey, JSON.stringify(session)) : storage.remove(this.storageKey)))
+      .catch(() => {
+        // Persistence is best-effort; the in-memory session stays valid
+      });
+  }
+
+  private expiresSoon(): boolean {
+    const expiresAt = this.session?.expires_at;
+    return expiresAt !== undefined && (expiresAt - this.refreshSkew) * 1000 <= Date.now();
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    const expiresAt = this.session?.expires_at;
+    if (!this.autoRefresh || expiresAt === undefined) {
+      return;
+    }
+
+    const delay = Math.max(0, (expiresAt - this.refreshSkew) * 1000 - Date.now());
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      if (delay > MAX_TIMER_DELAY) {
+        this.scheduleRefresh();
+      } else {
+        void this.refreshSession();
+      }
+    }, Math.min(delay, MAX_TIMER_DELAY));
+
+    // Don't keep the process alive just to refresh a session
+    this.refreshTimer.unref?.();
   }
 }
@@ -1,72 +1,423 @@
-import type { OrbitNestConfig, RequestOptions, ApiResult } from '../types';
+import { RequestThrottle } from './throttle';
+import { codeForStatus } from './errors';
+import type {
+  OrbitNestConfig,
+  RequestOptions,
+  RequestContext,
+  RetryOptions,
+  RateLimitInfo,
+  Middleware,
+  ApiResult,
+} from '../types';
+
+/**
+ * Supplies the user's access token for session-authenticated requests
+ */
+export interface SessionHandler {
+  getAccessToken(): Promise<string | null>;
+  /** Refresh the session, resolving to true if a new token is available */
+  refresh(): Promise<boolean>;
+}
+
+const DEFAULT_RETRY: RetryOptions = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  retryOn: [408, 429, 502, 503, 504],
+  methods: ['GET', 'PUT', 'DELETE'],
+};
 
 export class HttpClient {
   private baseUrl: string;
   private apiKey: string;
   private projectSlug: string;
   private timeout: number;
+  private retry: RetryOptions | null;
+  private throttle: RequestThrottle | null;
+  // Held in an object so scoped views update the same snapshot
+  private quota: { rateLimit: RateLimitInfo | null } = { rateLimit: null };
+  private middleware: Middleware[];
+  private fetch: typeof fetch;
+  private headers: Record<string, string>;
+  private useSessionForRequests: boolean;
+  private sessionHandler: SessionHandler | null = null;
 
   constructor(config: OrbitNestConfig) {
     this.baseUrl = (config.baseUrl || 'https://api.orbitnest.io').replace(/\/$/, '');
     this.apiKey = config.apiKey;
     this.projectSlug = config.projectSlug;
     this.timeout = config.timeout || 30000;
+    this.retry = config.retry === false ? null : { ...DEFAULT_RETRY, ...config.retry };
+    this.throttle = config.throttle ? new RequestThrottle(config.throttle) : null;
+    this.middleware = [...(config.middleware || [])];
+    // Resolve the global lazily so it can be replaced after the client is created
+    this.fetch = config.fetch || ((input, init) => fetch(input, init));
+    this.headers = {
+      ...(config.userAgent ? { 'User-Agent': config.userAgent } : {}),
+      ...config.headers,
+    };
+    this.useSessionForRequests = config.auth?.useSessionForRequests ?? false;
   }
 
   getProjectSlug(): string {
     return this.projectSlug;
   }
 
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * The configured fetch, for requests to other hosts that must skip middleware, throttling and credentials
+   */
+  getFetch(): typeof fetch {
+    return this.fetch;
+  }
+
+  /**
+   * Append a middleware to the pipeline
+   * The list is replaced rather than mutated, so a scoped view's additions stay local to it.
+   */
+  use(middleware: Middleware): void {
+    this.middleware = [...this.middleware, middleware];
+  }
+
+  /**
+   * Get the latest rate-limit quota reported by the API, if any
+   */
+  getRateLimit(): RateLimitInfo | null {
+    return this.quota.rateLimit;
+  }
+
+  /**
+   * Create a view that sends its own session's token on `auto` requests
+   * The view shares this client's configuration, middleware, throttle and rate-limit state.
+   */
+  scope(): HttpClient {
+    const view = Object.create(this) as HttpClient;
+    view.useSessionForRequests = true;
+    view.sessionHandler = null;
+    return view;
+  }
+
+  /**
+   * Register the source of user access tokens
+   */
+  setSessionHandler(handler: SessionHandler): void {
+    this.sessionHandler = handler;
+  }
+
   async request<T>(path: string, options: RequestOptions = {}): Promise<ApiResult<T>> {
-    const url = `${this.baseUrl}${path}`;
+    const result = await this.send<T>(path, options);
+
+    // An expired user token gets one refresh and retry
+    if (result.error?.status === 401 && this.sendsSession(options) && this.sessionHandler) {
+      if (await this.sessionHandler.refresh()) {
+        return this.send<T>(path, options);
+      }
+    }
+
+    return result;
+  }
+
+  private sendsSession(options: RequestOptions): boolean {
+    return options.auth === 'session' || (options.auth === 'auto' && this.useSessionForRequests);
+  }
+
+  private async send<T>(path: string, options: RequestOptions): Promise<ApiResult<T>> {
+    const policy = this.retryPolicy(options);
+
+    for (let attempt = 1; ; attempt++) {
+      const { result, retryAfter } = await this.attempt<T>(path, options, attempt);
+
+      if (!result.error || !policy || attempt >= policy.maxAttempts) {
+        return result;
+      }
+
+      const { status, code } = result.error;
+      const retryable = status ? policy.retryOn.includes(status) : code === 'NETWORK_ERROR' || code === 'TIMEOUT';
+      if (!retryable) {
+        return result;
+      }
+
+      const delay = retryAfter ?? backoff(attempt, policy);
+      if (delay > policy.maxDelay) {
+        return result;
+      }
+      await sleep(delay, options.signal);
+    }
+  }
+
+  /**
+   * Resolve the retry policy for a request, or null if it should not be retried
+   */
+  private retryPolicy(options: RequestOptions): RetryOptions | null {
+    if (options.retry === false || (options.retry === undefined && !this.retry)) {
+      return null;
+    }
+
+    const overrides = typeof options.retry === 'object' ? options.retry : {};
+    const policy = { ...(this.retry ?? DEFAULT_RETRY), ...overrides };
+    if (options.retry === true) {
+      return policy;
+    }
+    return policy.methods.includes(options.method || 'GET') ? policy : null;
+  }
+
+  private async attempt<T>(
+    path: string,
+    options: RequestOptions,
+    attempt: number
+  ): Promise<{ result: ApiResult<T>; retryAfter?: number }> {
+    const accessToken = this.sendsSession(options) ? await this.sessionHandler?.getAccessToken() : null;
+    // Never fall back to the API key for user-only endpoints; it may bypass RLS
+    if (options.auth === 'session' && !accessToken) {
+      return { result: { data: null, error: { message: 'No active session: sign in first', code: 'NO_SESSION' } } };
+    }
+    let release: (() => void) | undefined;
+    try {
+      release = await this.throttle?.acquire(options.signal);
+    } catch {
+      return { result: { data: null, error: { message: 'Request aborted', code: 'ABORTED' } } };
+    }
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), options.timeout || this.timeout);
+    const onAbort = () => controller.abort();
+    let streaming = false;
+    if (options.signal?.aborted) {
+      onAbort();
+    } else {
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    let context: RequestContext = {
+      url: /^https?:\/\//i.test(path) ? path : `${this.baseUrl}${path}`,
+      method: options.method || 'GET',
+      headers: {
+        ...(isRawBody(options.body) ? {} : { 'Content-Type': 'application/json' }),
+        ...(options.auth === 'none' ? {} : { 'Authorization': `Bearer ${accessToken || this.apiKey}` }),
+        ...this.headers,
+        ...options.headers,
+      },
+      body: serializeBody(options.body),
+      options,
+      attempt,
+    };
 
     try {
-      const response = await fetch(url, {
-        method: options.method || 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-          ...options.headers,
-        },
-        body: options.body ? JSON.stringify(options.body) : undefined,
-        signal: controller.signal,
-      });
+      for (const middleware of this.middleware) {
+        context = (await middleware.onRequest?.(context)) || context;
+      }
+
+      let response: Response;
+      try {
+        response = await this.fetch(context.url, {
+          method: context.method,
+          headers: context.headers,
+          body: context.body,
+          signal: controller.signal,
+        });
+      } catch (err) {
+        response = await this.recover(err, context);
+      }
+
+      for (const middleware of [...this.middleware].reverse()) {
+        response = (await middleware.onResponse?.(response, context)) || response;
+      }
 
       clearTimeout(timeoutId);
+      this.updateRateLimit(response.headers);
+
+      if (response.ok && options.responseType === 'blob') {
+        return { result: { data: (await response.blob()) as T, error: null } };
+      }
+      // The body is read by the caller, so cancelling must keep working until it ends
+      if (response.status < 400 && options.responseType === 'response') {
+        if (!response.body) {
+          return { result: { data: response as T, error: null } };
+        }
+        streaming = true;
+        const body = untilSettled(response.body, () => options.signal?.removeEventListener('abort', onAbort));
+        const streamed = new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+        return { result: { data: streamed as T, error: null } };
+      }
 
-      const data = await response.json().catch(() => null);
+      const data = await response.json().catch(err => {
+        // An abort while the body is read is still an abort, not an empty body
+        if (controller.signal.aborted) {
+          throw err instanceof Error && err.name === 'AbortError' ? err : Object.assign(new Error('Aborted'), { name: 'AbortError' });
+        }
+        return null;
+      });
 
       if (!response.ok) {
         return {
-          data: null,
-          error: {
-            message: data?.message || data?.error || `Request failed with status ${response.status}`,
-            code: data?.code || data?.statusCode?.toString(),
-            status: response.status,
+          result: {
+            data: null,
+            error: {
+              message: data?.message || data?.error || `Request failed with status ${response.status}`,
+              code: codeForStatus(response.status),
+              status: response.status,
+              details: data ?? undefined,
+            },
           },
+          retryAfter: parseRetryAfter(response.headers?.get('retry-after')),
         };
       }
 
-      return { data: data as T, error: null };
+      return { result: { data: data as T, error: null } };
     } catch (err) {
       clearTimeout(timeoutId);
 
       if (err instanceof Error && err.name === 'AbortError') {
         return {
-          data: null,
-          error: { message: 'Request timeout', code: 'TIMEOUT' },
+          result: {
+            data: null,
+            error: options.signal?.aborted
+              ? { message: 'Request aborted', code: 'ABORTED' }
+              : { message: 'Request timeout', code: 'TIMEOUT' },
+          },
         };
       }
 
       return {
-        data: null,
-        error: {
-          message: err instanceof Error ? err.message : 'Unknown error',
-          code: 'NETWORK_ERROR',
+        result: {
+          data: null,
+          error: {
+            message: err instanceof Error ? err.message : 'Unknown error',
+            code: 'NETWORK_ERROR',
+          },
         },
       };
+    } finally {
+      if (!streaming) {
+        options.signal?.removeEventListener('abort', onAbort);
+      }
+      release?.();
+    }
+  }
+
+  /**
+   * Give onError middleware a chance to supply a response for a failed fetch
+   */
+  private async recover(error: unknown, context: RequestContext): Promise<Response> {
+    for (const middleware of [...this.middleware].reverse()) {
+      const response = await middleware.onError?.(error, context);
+      if (response) {
+        return response;
+      }
+    }
+    throw error;
+  }
+
+  private updateRateLimit(headers: Headers | undefined): void {
+    const limit = headers?.get('x-ratelimit-limit');
+    const remaining = headers?.get('x-ratelimit-remaining');
+    if (limit == null || remaining == null) {
+      return;
     }
+
+    // Reset is usually epoch seconds, but some proxies send seconds until reset
+    const resetValue = Number(headers?.get('x-ratelimit-reset') ?? 0);
+    const reset = new Date(resetValue > 1e9 ? resetValue * 1000 : Date.now() + resetValue * 1000);
+
+    this.quota.rateLimit = {
+      limit: Number(limit),
+      remaining: Number(remaining),
+      reset,
+      updatedAt: new Date(),
+    };
+
+    if (this.quota.rateLimit.remaining <= 0) {
+      this.throttle?.pauseUntil(reset.getTime());
+    }
+  }
+}
+
+/**
+ * Pass a body through, calling `done` once it is fully read, fails or is cancelled
+ */
+function untilSettled(body: ReadableStream<Uint8Array>, done: () => void): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done: finished, value } = await reader.read();
+        if (finished) {
+          done();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (err) {
+        done();
+        controller.error(err);
+      }
+    },
+    cancel(reason) {
+      done();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Bodies that are sent as-is instead of being JSON-encoded
+ */
+function isRawBody(body: unknown): body is BodyInit {
+  return (
+    body instanceof FormData ||
+    body instanceof Blob ||
+    body instanceof URLSearchParams ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body)
+  );
+}
+
+function serializeBody(body: unknown): BodyInit | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
   }
+  return isRawBody(body) ? body : JSON.stringify(body);
+}
+
+/**
+ * Exponential backoff for the given attempt, with optional full jitter
+ */
+function backoff(attempt: number, policy: RetryOptions): number {
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return policy.jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date
+ */
+function parseRetryAfter(header: string | null | undefined): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Wait for the given time, returning early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
 }
@@ -1,13 +1,40 @@
 import type { HttpClient } from './client';
+import { escapeIdentifier, escapeLiteral, formatQuery, SqlEscapeError } from './escape';
+import type { QueryParams } from './escape';
+import { sql, SqlFragment } from './sql';
+import { compileStatement, Transaction } from './transaction';
+import type { Statement } from './transaction';
+import { paginate } from './paginate';
+import type { IterateOptions } from './paginate';
 import type {
   QueryResult,
   TableMetadata,
   PaginationOptions,
+  SignalOptions,
+  RequestOptions,
   RlsPolicy,
+  FilterOperator,
+  GenericDatabase,
   ApiResult,
+  ApiError,
 } from '../types';
 
-export class DatabaseClient {
+interface SqlResponse<T> {
+  success: boolean;
+  data: T[];
+  rows_affected: number;
+  columns?: Array<{ name: string; type: string }>;
+}
+
+type TableName<DB extends GenericDatabase> = keyof DB['tables'] & string;
+
+// Any table name is accepted only when the client was created without a schema
+type UntypedTableName<DB extends GenericDatabase> = string extends TableName<DB> ? string : never;
+
+/**
+ * Database client, optionally typed with a generated `Database` schema
+ */
+export class DatabaseClient<DB extends GenericDatabase = GenericDatabase> {
   constructor(private client: HttpClient) {}
 
   /**
@@ -18,48 +45,189 @@ export class DatabaseClient {
     return `/api/project/${this.client.getProjectSlug()}/database`;
   }
 
+  /**
+   * Send a request that carries the user's token when session requests are enabled
+   */
+  private request<T>(path: string, options: RequestOptions = {}): Promise<ApiResult<T>> {
+    return this.client.request<T>(path, { auth: 'auto', ...options });
+  }
+
   /**
    * Execute a raw SQL query
-   * Note: Backend does not support parameterized queries - params are ignored
+   * The backend only accepts raw SQL, so params are escaped and inlined client-side.
+   * Use `$1`/`?` placeholders with an array, or `:name` placeholders with an object.
    */
-  async query<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<ApiResult<QueryResult<T>>> {
-    const result = await this.client.request<{
-      success: boolean;
-      data: T[];
-      rows_affected: number;
-      columns?: Array<{ name: string; type: string }>;
-    }>(`${this.basePath}/sql`, {
+  async query<T = Record<string, unknown>>(
+    sql: string | SqlFragment,
+    params?: QueryParams,
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<QueryResult<T>>> {
+    let text = sql.toString();
+    if (params !== undefined) {
+      try {
+        text = formatQuery(text, params);
+      } catch (err) {
+        return toEscapeError(err);
+      }
+    }
+
+    const result = await this.request<SqlResponse<T>>(`${this.basePath}/sql`, {
       method: 'POST',
-      body: { sql },  // Backend only accepts sql, not params
+      body: { sql: text },
+      signal,
     });
 
     if (result.error) {
       return result as ApiResult<QueryResult<T>>;
     }
 
-    // Transform API response to QueryResult format
+    return { data: toQueryResult(result.data), error: null };
+  }
+
+  /**
+   * Run statements atomically as one multi-statement query, which Postgres rolls back as a whole on error
+   * Each statement's result is at the index returned by `tx.query()`; it is null when the
+   * server only reports the script as a whole. `tx.rollback()` and statement errors (4xx
+   * responses) resolve to a TRANSACTION_ROLLED_BACK error. Timeouts, 5xx responses and network
+   * errors keep their own code because the outcome is unknown.
+   *
+   * @example
+   * const { data, error } = await db.transaction(tx => {
+   *   tx.sql`UPDATE accounts SET balance = balance - ${amount} WHERE id = ${from}`;
+   *   tx.sql`UPDATE accounts SET balance = balance + ${amount} WHERE id = ${to}`;
+   * });
+   */
+  async transaction(
+    build: (tx: Transaction) => void | Promise<void>,
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<Array<QueryResult | null>>> {
+    const tx = new Transaction();
+    try {
+      await build(tx);
+    } catch (err) {
+      if (err instanceof SqlEscapeError) {
+        return toEscapeError(err);
+      }
+      throw err;
+    }
+
+    if (tx.rolledBack !== null) {
+      return { data: null, error: { message: tx.rolledBack, code: 'TRANSACTION_ROLLED_BACK' } };
+    }
+    if (tx.size === 0) {
+      return { data: [], error: null };
+    }
+
+    const result = await this.request<SqlResponse<Record<string, unknown>> & { results?: SqlResponse<Record<string, unknown>>[] }>(
+      `${this.basePath}/sql`,
+      {
+        method: 'POST',
+        body: { sql: tx.toScript() },
+        signal,
+      }
+    );
+
+    if (result.error) {
+      // Only a rejected request or a failed statement proves nothing was committed
+      const status = result.error.status;
+      if (status === undefined || status >= 500 || status === 408) {
+        return result;
+      }
+      return {
+        data: null,
+        error: {
+          message: `Transaction rolled back: ${result.error.message}`,
+          code: 'TRANSACTION_ROLLED_BACK',
+          status: result.error.status,
+          details: result.error.details,
+        },
+      };
+    }
+
+    const results = result.data.results;
+
     return {
-      data: {
-        rows: result.data.data || [],
-        rowCount: result.data.rows_affected || 0,
-        fields: result.data.columns?.map(col => ({ name: col.name, dataType: col.type })),
-      },
+      data:
+        results && results.length === tx.size
+          ? results.map(toQueryResult)
+          : Array.from({ length: tx.size }, () => null),
       error: null,
     };
   }
 
+  /**
+   * Run independent statements as separate queries
+   * Results are in statement order; one failing statement does not affect the others.
+   */
+  async batch<T = Record<string, unknown>>(
+    statements: Statement[],
+    { signal, concurrency = 4 }: SignalOptions & { concurrency?: number } = {}
+  ): Promise<Array<ApiResult<QueryResult<T>>>> {
+    const results: Array<ApiResult<QueryResult<T>>> = new Array(statements.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < statements.length) {
+        const index = next++;
+        let text: string;
+        try {
+          text = compileStatement(statements[index]);
+        } catch (err) {
+          results[index] = toEscapeError(err);
+          continue;
+        }
+        results[index] = await this.query<T>(text, undefined, { signal });
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, statements.length)) }, worker));
+    return results;
+  }
+
+  /**
+   * Execute a query built with the `sql` tagged template
+   * e.g. db.sql`SELECT * FROM ${sql.ident(table)} WHERE id = ${id}`
+   * Call it with options first to pass a signal: db.sql({ signal })`SELECT ...`
+   */
+  sql<T = Record<string, unknown>>(strings: TemplateStringsArray, ...values: unknown[]): Promise<ApiResult<QueryResult<T>>>;
+  sql(
+    options: SignalOptions
+  ): <T = Record<string, unknown>>(strings: TemplateStringsArray, ...values: unknown[]) => Promise<ApiResult<QueryResult<T>>>;
+  sql<T = Record<string, unknown>>(stringsOrOptions: TemplateStringsArray | SignalOptions, ...values: unknown[]) {
+    if (!Array.isArray(stringsOrOptions)) {
+      const options = stringsOrOptions as SignalOptions;
+      return <R = Record<string, unknown>>(strings: TemplateStringsArray, ...tagValues: unknown[]) =>
+        this.runTemplate<R>(strings, tagValues, options);
+    }
+    return this.runTemplate<T>(stringsOrOptions as TemplateStringsArray, values, {});
+  }
+
+  private async runTemplate<T>(
+    strings: TemplateStringsArray,
+    values: unknown[],
+    options: SignalOptions
+  ): Promise<ApiResult<QueryResult<T>>> {
+    let fragment: SqlFragment;
+    try {
+      fragment = sql(strings, ...values);
+    } catch (err) {
+      return toEscapeError(err);
+    }
+    return this.query<T>(fragment, undefined, options);
+  }
+
   /**
    * Get all tables in the database
    */
-  async listTables(): Promise<ApiResult<string[]>> {
-    return this.client.request<string[]>(`${this.basePath}/tables/list`);
+  async listTables({ signal }: SignalOptions = {}): Promise<ApiResult<string[]>> {
+    return this.request<string[]>(`${this.basePath}/tables/list`, { signal });
   }
 
   /**
    * Get table metadata including columns
    */
-  async getTableMetadata(tableName: string): Promise<ApiResult<TableMetadata>> {
-    return this.client.request<TableMetadata>(`${this.basePath}/tables?table=${tableName}`);
+  async getTableMetadata(tableName: string, { signal }: SignalOptions = {}): Promise<ApiResult<TableMetadata>> {
+    return this.request<TableMetadata>(`${this.basePath}/tables?table=${tableName}`, { signal });
   }
 
   /**
@@ -67,7 +235,7 @@ export class DatabaseClient {
    */
   async getTableData<T = Record<string, unknown>>(
     tableName: string,
-    options: PaginationOptions = {}
+    options: PaginationOptions & SignalOptions = {}
   ): Promise<ApiResult<{ rows: T[]; total: number }>> {
     const params = new URLSearchParams();
     if (options.page) params.set('page', options.page.toString());
@@ -76,8 +244,9 @@ export class DatabaseClient {
     if (options.sortOrder) params.set('sortOrder', options.sortOrder);
 
     const query = params.toString() ? `?${params.toString()}` : '';
-    return this.client.request<{ rows: T[]; total: number }>(
-      `${this.basePath}/tables/${tableName}/data${query}`
+    return this.request<{ rows: T[]; total: number }>(
+      `${this.basePath}/tables/${tableName}/data${query}`,
+      { signal: options.signal }
     );
   }
 
@@ -87,9 +256,10 @@ export class DatabaseClient {
    */
   async insert<T = Record<string, unknown>>(
     tableName: string,
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    { signal }: SignalOptions = {}
   ): Promise<ApiResult<T>> {
-    const result = await this.client.request<{
+    const result = await this.request<{
       success: boolean;
       data: T[];
       rows_affected: number;
@@ -97,6 +267,7 @@ export class DatabaseClient {
     }>(`${this.basePath}/tables/${tableName}/rows`, {
       method: 'POST',
       body: data,
+      signal,
     });
 
     if (result.error) {
@@ -117,15 +288,17 @@ export class DatabaseClient {
   async update<T = Record<string, unknown>>(
     tableName: string,
     rowId: string | number,
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    { signal }: SignalOptions = {}
   ): Promise<ApiResult<T>> {
-    const result = await this.client.request<{
+    const result = await this.request<{
       success: boolean;
       data: T;
       message: string;
     }>(`${this.basePath}/tables/${tableName}/rows/${rowId}`, {
       method: 'PUT',
       body: data,
+      signal,
     });
 
     if (result.error) {
@@ -142,10 +315,14 @@ export class DatabaseClient {
    * Delete a row by ID
    * Note: Requires service_role_key for authentication
    */
-  async delete(tableName: string, rowId: string | number): Promise<ApiResult<{ success: boolean }>> {
-    return this.client.request<{ success: boolean }>(
+  async delete(
+    tableName: string,
+    rowId: string | number,
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<{ success: boolean }>> {
+    return this.request<{ success: boolean }>(
       `${this.basePath}/tables/${tableName}/rows/${rowId}`,
-      { method: 'DELETE' }
+      { method: 'DELETE', signal }
     );
   }
 
@@ -155,11 +332,13 @@ export class DatabaseClient {
    */
   async bulkInsert<T = Record<string, unknown>>(
     tableName: string,
-    rows: Record<string, unknown>[]
+    rows: Record<string, unknown>[],
+    { signal }: SignalOptions = {}
   ): Promise<ApiResult<T[]>> {
-    return this.client.request<T[]>(`${this.basePath}/tables/${tableName}/rows/bulk`, {
+    return this.request<T[]>(`${this.basePath}/tables/${tableName}/rows/bulk`, {
       method: 'POST',
       body: rows,
+      signal,
     });
   }
 
@@ -169,11 +348,13 @@ export class DatabaseClient {
    */
   async bulkUpdate<T = Record<string, unknown>>(
     tableName: string,
-    updates: Array<{ where: Record<string, unknown>; data: Record<string, unknown> }>
+    updates: Array<{ where: Record<string, unknown>; data: Record<string, unknown> }>,
+    { signal }: SignalOptions = {}
   ): Promise<ApiResult<T[]>> {
-    return this.client.request<T[]>(`${this.basePath}/tables/${tableName}/rows/bulk`, {
+    return this.request<T[]>(`${this.basePath}/tables/${tableName}/rows/bulk`, {
       method: 'PUT',
       body: updates,
+      signal,
     });
   }
 
@@ -183,13 +364,15 @@ export class DatabaseClient {
    */
   async bulkDelete(
     tableName: string,
-    conditions: Record<string, unknown>[]
+    conditions: Record<string, unknown>[],
+    { signal }: SignalOptions = {}
   ): Promise<ApiResult<{ deleted: number }>> {
-    return this.client.request<{ deleted: number }>(
+    return this.request<{ deleted: number }>(
       `${this.basePath}/tables/${tableName}/rows/bulk`,
       {
         method: 'DELETE',
         body: conditions,
+        signal,
       }
     );
   }
@@ -197,32 +380,37 @@ export class DatabaseClient {
   /**
    * Enable Row Level Security on a table
    */
-  async enableRls(tableName: string): Promise<ApiResult<{ success: boolean }>> {
-    return this.client.request<{ success: boolean }>(
+  async enableRls(tableName: string, { signal }: SignalOptions = {}): Promise<ApiResult<{ success: boolean }>> {
+    return this.request<{ success: boolean }>(
       `${this.basePath}/tables/${tableName}/rls/enable`,
-      { method: 'POST' }
+      { method: 'POST', signal }
     );
   }
 
   /**
    * Disable Row Level Security on a table
    */
-  async disableRls(tableName: string): Promise<ApiResult<{ success: boolean }>> {
-    return this.client.request<{ success: boolean }>(
+  async disableRls(tableName: string, { signal }: SignalOptions = {}): Promise<ApiResult<{ success: boolean }>> {
+    return this.request<{ success: boolean }>(
       `${this.basePath}/tables/${tableName}/rls/disable`,
-      { method: 'POST' }
+      { method: 'POST', signal }
     );
   }
 
   /**
    * Create an RLS policy
    */
-  async createPolicy(tableName: string, policy: RlsPolicy): Promise<ApiResult<{ success: boolean }>> {
-    return this.client.request<{ success: boolean }>(
+  async createPolicy(
+    tableName: string,
+    policy: RlsPolicy,
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<{ success: boolean }>> {
+    return this.request<{ success: boolean }>(
       `${this.basePath}/tables/${tableName}/policies`,
       {
         method: 'POST',
         body: policy,
+        signal,
       }
     );
   }
@@ -230,38 +418,205 @@ export class DatabaseClient {
   /**
    * List RLS policies for a table
    */
-  async listPolicies(tableName: string): Promise<ApiResult<RlsPolicy[]>> {
-    return this.client.request<RlsPolicy[]>(`${this.basePath}/tables/${tableName}/policies`);
+  async listPolicies(tableName: string, { signal }: SignalOptions = {}): Promise<ApiResult<RlsPolicy[]>> {
+    return this.request<RlsPolicy[]>(`${this.basePath}/tables/${tableName}/policies`, { signal });
   }
 
   /**
    * Delete an RLS policy
    */
-  async deletePolicy(tableName: string, policyName: string): Promise<ApiResult<{ success: boolean }>> {
-    return this.client.request<{ success: boolean }>(
+  async deletePolicy(
+    tableName: string,
+    policyName: string,
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<{ success: boolean }>> {
+    return this.request<{ success: boolean }>(
       `${this.basePath}/tables/${tableName}/policies/${policyName}`,
-      { method: 'DELETE' }
+      { method: 'DELETE', signal }
     );
   }
 
   /**
    * Create a fluent query builder for a table
+   * With a typed client, rows are typed from the schema; otherwise pass the row type explicitly.
    */
+  from<K extends TableName<DB>>(
+    tableName: K
+  ): TableQueryBuilder<DB['tables'][K]['Row'], DB['tables'][K]['Insert'], DB['tables'][K]['Update']>;
+  from<T = Record<string, unknown>>(tableName: UntypedTableName<DB>): TableQueryBuilder<T>;
   from(tableName: string): TableQueryBuilder {
     return new TableQueryBuilder(this, tableName);
   }
 }
 
+function toQueryResult<T>(response: SqlResponse<T>): QueryResult<T> {
+  return {
+    rows: response.data || [],
+    rowCount: response.rows_affected || 0,
+    fields: response.columns?.map(col => ({ name: col.name, dataType: col.type })),
+  };
+}
+
+function toEscapeError(err: unknown): ApiError {
+  return {
+    data: null,
+    error: {
+      message: err instanceof Error ? err.message : 'Invalid query',
+      code: err instanceof SqlEscapeError ? err.code : 'INVALID_QUERY',
+    },
+  };
+}
+
+type Filter =
+  | { column: string; operator: FilterOperator; value: unknown }
+  | { or: Filter[] };
+
+const TOTAL_COLUMN = '__orbitnest_total';
+
+/**
+ * Chainable filter conditions, combined with AND
+ */
+class FilterBuilder {
+  protected filters: Filter[] = [];
+
+  where(column: string, operator: FilterOperator, value: unknown): this {
+    this.filters.push({ column, operator, value });
+    return this;
+  }
+
+  /**
+   * Match `column = value`; null compiles to `IS NULL`
+   */
+  eq(column: string, value: unknown): this {
+    return this.where(column, 'eq', value);
+  }
+
+  /**
+   * Match `column <> value`; null compiles to `IS NOT NULL`
+   */
+  neq(column: string, value: unknown): this {
+    return this.where(column, 'neq', value);
+  }
+
+  gt(column: string, value: unknown): this {
+    return this.where(column, 'gt', value);
+  }
+
+  gte(column: string, value: unknown): this {
+    return this.where(column, 'gte', value);
+  }
+
+  lt(column: string, value: unknown): this {
+    return this.where(column, 'lt', value);
+  }
+
+  lte(column: string, value: unknown): this {
+    return this.where(column, 'lte', value);
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.where(column, 'in', values);
+  }
+
+  like(column: string, pattern: string): this {
+    return this.where(column, 'like', pattern);
+  }
+
+  ilike(column: string, pattern: string): this {
+    return this.where(column, 'ilike', pattern);
+  }
+
+  /**
+   * Match `IS NULL`, `IS TRUE` or `IS FALSE`
+   */
+  is(column: string, value: null | boolean): this {
+    return this.where(column, 'is', value);
+  }
+
+  /**
+   * Add a group of conditions where at least one must match
+   */
+  or(build: (group: FilterBuilder) => FilterBuilder): this {
+    const group = build(new FilterBuilder());
+    this.filters.push({ or: group.filters });
+    return this;
+  }
+
+  protected compileWhere(): string {
+    if (this.filters.length === 0) {
+      return '';
+    }
+    return ` WHERE ${this.filters.map(compileFilter).join(' AND ')}`;
+  }
+}
+
+function compileFilter(filter: Filter): string {
+  if ('or' in filter) {
+    return filter.or.length ? `(${filter.or.map(compileFilter).join(' OR ')})` : 'FALSE';
+  }
+
+  const column = escapeIdentifier(filter.column);
+  const value = filter.value;
+
+  switch (filter.operator) {
+    case 'eq':
+      // `= NULL` never matches
+      return value === null ? `${column} IS NULL` : `${column} = ${escapeLiteral(value)}`;
+    case 'neq':
+      return value === null ? `${column} IS NOT NULL` : `${column} <> ${escapeLiteral(value)}`;
+    case 'gt':
+      return `${column} > ${escapeLiteral(value)}`;
+    case 'gte':
+      return `${column} >= ${escapeLiteral(value)}`;
+    case 'lt':
+      return `${column} < ${escapeLiteral(value)}`;
+    case 'lte':
+      return `${column} <= ${escapeLiteral(value)}`;
+    case 'like':
+      return `${column} LIKE ${escapeLiteral(value)}`;
+    case 'ilike':
+      return `${column} ILIKE ${escapeLiteral(value)}`;
+    case 'in':
+      if (!Array.isArray(value)) {
+        throw new SqlEscapeError(`in() expects an array for column ${filter.column}`);
+      }
+      return value.length ? `${column} IN (${value.map(escapeLiteral).join(', ')})` : 'FALSE';
+    case 'is':
+      if (value === null) return `${column} IS NULL`;
+      if (value === true) return `${column} IS TRUE`;
+      if (value === false) return `${column} IS FALSE`;
+      throw new SqlEscapeError(`is() expects null, true or false for column ${filter.column}`);
+    default:
+      throw new SqlEscapeError(`Unknown filter operator: ${filter.operator}`);
+  }
+}
+
 /**
  * Fluent query builder for table operations
+ *
+ * Without filters or a column list, reads go through the table data endpoint.
+ * Otherwise the query is compiled to escaped SQL and sent through `query()`.
+ * The builder is awaitable and resolves to `{ rows, total }`.
  */
-class TableQueryBuilder {
+class TableQueryBuilder<
+    T = Record<string, unknown>,
+    TInsert = Record<string, unknown>,
+    TUpdate = Record<string, unknown>,
+  >
+  extends FilterBuilder
+  implements PromiseLike<ApiResult<{ rows: T[]; total: number }>>
+{
   private _pagination: PaginationOptions = {};
+  private _offset?: number;
+  private _columns?: string[];
+  private _signal?: AbortSignal;
 
   constructor(
-    private db: DatabaseClient,
+    private db: Pick<DatabaseClient, 'query' | 'getTableData' | 'insert' | 'update' | 'delete'>,
     private tableName: string
-  ) {}
+  ) {
+    super();
+  }
 
   page(num: number): this {
     this._pagination.page = num;
@@ -273,28 +628,196 @@ class TableQueryBuilder {
     return this;
   }
 
+  /**
+   * Limit results to rows `from` through `to` (zero-based, inclusive)
+   */
+  range(from: number, to: number): this {
+    this._offset = from;
+    this._pagination.limit = to - from + 1;
+    return this;
+  }
+
   orderBy(column: string, order: 'ASC' | 'DESC' = 'ASC'): this {
     this._pagination.sortBy = column;
     this._pagination.sortOrder = order;
     return this;
   }
 
-  async select<T = Record<string, unknown>>(): Promise<ApiResult<{ rows: T[]; total: number }>> {
-    return this.db.getTableData<T>(this.tableName, this._pagination);
+  /**
+   * Cancel the query when the signal is aborted
+   */
+  abortSignal(signal: AbortSignal): this {
+    this._signal = signal;
+    return this;
+  }
+
+  /**
+   * Choose the columns to return, e.g. `select('id,name')`
+   */
+  select<R = T>(columns?: string): TableQueryBuilder<R, TInsert, TUpdate> {
+    if (columns && columns.trim() !== '*') {
+      this._columns = columns.split(',').map(col => col.trim()).filter(Boolean);
+    }
+    return this as unknown as TableQueryBuilder<R, TInsert, TUpdate>;
+  }
+
+  then<R1 = ApiResult<{ rows: T[]; total: number }>, R2 = never>(
+    onfulfilled?: ((value: ApiResult<{ rows: T[]; total: number }>) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): PromiseLike<R1 | R2> {
+    return this.execute().then(onfulfilled, onrejected);
   }
 
-  async insert<T = Record<string, unknown>>(data: Record<string, unknown>): Promise<ApiResult<T>> {
-    return this.db.insert<T>(this.tableName, data);
+  /**
+   * Return exactly one row, or an error if zero or several rows match
+   */
+  async single(): Promise<ApiResult<T>> {
+    const result = await this.maybeSingle();
+    if (result.error) {
+      return result;
+    }
+    if (result.data === null) {
+      return {
+        data: null,
+        error: { message: `No rows found in ${this.tableName}`, code: 'NO_ROWS' },
+      };
+    }
+    return { data: result.data, error: null };
   }
 
-  async update<T = Record<string, unknown>>(
-    id: string | number,
-    data: Record<string, unknown>
-  ): Promise<ApiResult<T>> {
-    return this.db.update<T>(this.tableName, id, data);
+  /**
+   * Return one row or null, or an error if several rows match
+   */
+  async maybeSingle(): Promise<ApiResult<T | null>> {
+    const result = await this.runSql(2);
+    if (result.error) {
+      return result;
+    }
+    if (result.data.rows.length > 1) {
+      return {
+        data: null,
+        error: { message: `Multiple rows found in ${this.tableName}`, code: 'MULTIPLE_ROWS' },
+      };
+    }
+    return { data: result.data.rows[0] ?? null, error: null };
+  }
+
+  /**
+   * Iterate over every matching row, fetching `pageSize` rows at a time
+   * Page, limit and range set on the builder are ignored.
+   *
+   * @example
+   * for await (const order of db.from('orders').eq('status', 'open').orderBy('id').iterate({ pageSize: 500 })) {
+   *   await ship(order);
+   * }
+   */
+  iterate(options: IterateOptions = {}): AsyncGenerator<T, void, undefined> {
+    return paginate<T>(
+      async ({ index, limit }, signal) => {
+        const result = await this.execute({ page: index + 1, limit, signal });
+        return result.error ? result : { data: { items: result.data.rows, total: result.data.total }, error: null };
+      },
+      { signal: this._signal, ...options }
+    );
+  }
+
+  /**
+   * Compile the current query to escaped SQL
+   */
+  toSql(limitOverride?: number, offsetOverride?: number): string {
+    const columns = this._columns?.map(col => (col === '*' ? col : escapeIdentifier(col))).join(', ') || '*';
+    const { limit, sortBy, sortOrder } = this._pagination;
+
+    let sql = `SELECT ${columns}, count(*) OVER() AS ${TOTAL_COLUMN} FROM ${escapeIdentifier(this.tableName)}`;
+    sql += this.compileWhere();
+    if (sortBy) {
+      sql += ` ORDER BY ${escapeIdentifier(sortBy)} ${sortOrder === 'DESC' ? 'DESC' : 'ASC'}`;
+    }
+
+    const rowLimit = limitOverride ?? limit;
+    if (rowLimit !== undefined) {
+      sql += ` LIMIT ${Math.max(0, Math.floor(rowLimit))}`;
+    }
+    const offset = offsetOverride ?? this.offset;
+    if (offset) {
+      sql += ` OFFSET ${offset}`;
+    }
+
+    return sql;
+  }
+
+  async insert<R = T>(data: TInsert): Promise<ApiResult<R>> {
+    return this.db.insert<R>(this.tableName, data as Record<string, unknown>, { signal: this._signal });
+  }
+
+  async update<R = T>(id: string | number, data: TUpdate): Promise<ApiResult<R>> {
+    return this.db.update<R>(this.tableName, id, data as Record<string, unknown>, { signal: this._signal });
   }
 
   async delete(id: string | number): Promise<ApiResult<{ success: boolean }>> {
-    return this.db.delete(this.tableName, id);
+    return this.db.delete(this.tableName, id, { signal: this._signal });
+  }
+
+  private get offset(): number {
+    if (this._offset !== undefined) {
+      return Math.max(0, Math.floor(this._offset));
+    }
+    const { page, limit } = this._pagination;
+    return page && limit ? (page - 1) * limit : 0;
+  }
+
+  /**
+   * Run the query, or one page of it when iterating
+   */
+  private async execute(
+    page?: { page: number; limit: number; signal: AbortSignal }
+  ): Promise<ApiResult<{ rows: T[]; total: number }>> {
+    if (this.filters.length === 0 && !this._columns && (page || this._offset === undefined)) {
+      return this.db.getTableData<T>(this.tableName, {
+        ...this._pagination,
+        ...(page && { page: page.page, limit: page.limit }),
+        signal: page?.signal ?? this._signal,
+      });
+    }
+    return page
+      ? this.runSql(page.limit, (page.page - 1) * page.limit, page.signal)
+      : this.runSql();
+  }
+
+  private async runSql(
+    limitOverride?: number,
+    offsetOverride?: number,
+    signal = this._signal
+  ): Promise<ApiResult<{ rows: T[]; total: number }>> {
+    const offset = offsetOverride ?? this.offset;
+    let sql: string;
+    try {
+      sql = this.toSql(limitOverride, offsetOverride);
+    } catch (err) {
+      return toEscapeError(err);
+    }
+
+    const result = await this.db.query<T & { [TOTAL_COLUMN]?: number | string }>(sql, undefined, { signal });
+    if (result.error) {
+      return result as ApiResult<{ rows: T[]; total: number }>;
+    }
+
+    const rows = result.data.rows.map(({ [TOTAL_COLUMN]: _total, ...row }) => row as unknown as T);
+    let total = Number(result.data.rows[0]?.[TOTAL_COLUMN] ?? 0);
+
+    // The window count is only available on returned rows, so ask again past the last page
+    if (rows.length === 0 && offset > 0) {
+      const count = await this.db.query<{ total: number | string }>(
+        `SELECT count(*) AS total FROM ${escapeIdentifier(this.tableName)}${this.compileWhere()}`,
+        undefined,
+        { signal }
+      );
+      if (count.error) {
+        return count as ApiResult<{ rows: T[]; total: number }>;
+      }
+      total = Number(count.data.rows[0]?.total ?? 0);
+    }
+
+    return { data: { rows, total }, error: null };
   }
 }
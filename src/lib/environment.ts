@@ -1,5 +1,5 @@
 import type { HttpClient } from './client';
-import type { ApiResult } from '../types';
+import type { ApiResult, SignalOptions } from '../types';
 
 export interface EnvironmentVariable {
   name: string;
@@ -20,15 +20,15 @@ export class EnvironmentClient {
   /**
    * List all environment variables
    */
-  async list(): Promise<ApiResult<EnvironmentVariable[]>> {
-    return this.client.request<EnvironmentVariable[]>(this.basePath);
+  async list({ signal }: SignalOptions = {}): Promise<ApiResult<EnvironmentVariable[]>> {
+    return this.client.request<EnvironmentVariable[]>(this.basePath, { signal });
   }
 
   /**
    * Get a specific environment variable
    */
-  async get(name: string): Promise<ApiResult<EnvironmentVariable>> {
-    return this.client.request<EnvironmentVariable>(`${this.basePath}/${name}`);
+  async get(name: string, { signal }: SignalOptions = {}): Promise<ApiResult<EnvironmentVariable>> {
+    return this.client.request<EnvironmentVariable>(`${this.basePath}/${name}`, { signal });
   }
 
   /**
@@ -37,7 +37,7 @@ export class EnvironmentClient {
   async set(
     name: string,
     value: string,
-    options: { description?: string; isSecret?: boolean } = {}
+    options: { description?: string; isSecret?: boolean; signal?: AbortSignal } = {}
   ): Promise<ApiResult<EnvironmentVariable>> {
     return this.client.request<EnvironmentVariable>(`${this.basePath}/${name}`, {
       method: 'PUT',
@@ -46,6 +46,7 @@ export class EnvironmentClient {
         description: options.description,
         is_secret: options.isSecret,
       },
+      signal: options.signal,
     });
   }
 
@@ -55,7 +56,7 @@ export class EnvironmentClient {
   async create(
     name: string,
     value: string,
-    options: { description?: string; isSecret?: boolean } = {}
+    options: { description?: string; isSecret?: boolean; signal?: AbortSignal } = {}
   ): Promise<ApiResult<EnvironmentVariable>> {
     return this.client.request<EnvironmentVariable>(this.basePath, {
       method: 'POST',
@@ -65,6 +66,7 @@ export class EnvironmentClient {
         description: options.description,
         is_secret: options.isSecret,
       },
+      signal: options.signal,
     });
   }
 
@@ -72,20 +74,23 @@ export class EnvironmentClient {
    * Bulk create environment variables
    */
   async bulkCreate(
-    variables: Array<{ name: string; value: string; description?: string; isSecret?: boolean }>
+    variables: Array<{ name: string; value: string; description?: string; isSecret?: boolean }>,
+    { signal }: SignalOptions = {}
   ): Promise<ApiResult<EnvironmentVariable[]>> {
     return this.client.request<EnvironmentVariable[]>(`${this.basePath}/bulk`, {
       method: 'POST',
       body: { variables },
+      signal,
     });
   }
 
   /**
    * Delete an environment variable
    */
-  async delete(name: string): Promise<ApiResult<{ success: boolean }>> {
+  async delete(name: string, { signal }: SignalOptions = {}): Promise<ApiResult<{ success: boolean }>> {
     return this.client.request<{ success: boolean }>(`${this.basePath}/${name}`, {
       method: 'DELETE',
+      signal,
     });
   }
 }
@@ -0,0 +1,251 @@
+import type { ApiError, ApiResult } from '../types';
+
+/**
+ * Stable error codes reported in `error.code`
+ */
+export const ErrorCodes = {
+  /** 400 response */
+  BAD_REQUEST: 'BAD_REQUEST',
+  /** 401 response: missing or invalid API key or user token */
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  /** 403 response: key not valid for this project or insufficient permissions */
+  FORBIDDEN: 'FORBIDDEN',
+  /** 404 response */
+  NOT_FOUND: 'NOT_FOUND',
+  /** 409 response, e.g. a duplicate user */
+  CONFLICT: 'CONFLICT',
+  /** 422 response */
+  VALIDATION_ERROR: 'VALIDATION_ERROR',
+  /** 429 response */
+  RATE_LIMITED: 'RATE_LIMITED',
+  /** 5xx response */
+  SERVER_ERROR: 'SERVER_ERROR',
+  /** Any other unsuccessful response */
+  HTTP_ERROR: 'HTTP_ERROR',
+  /** The request did not complete within the timeout */
+  TIMEOUT: 'TIMEOUT',
+  /** The request was cancelled through its AbortSignal */
+  ABORTED: 'ABORTED',
+  /** The request could not be sent or the connection failed */
+  NETWORK_ERROR: 'NETWORK_ERROR',
+  /** The server responded with a body the SDK could not understand */
+  INVALID_RESPONSE: 'INVALID_RESPONSE',
+  /** A local file or stream could not be read or written */
+  IO_ERROR: 'IO_ERROR',
+  /** An auth operation needs a session but none is set */
+  NO_SESSION: 'NO_SESSION',
+  /** A JWT is malformed, has a bad signature or fails a claim check */
+  INVALID_TOKEN: 'INVALID_TOKEN',
+  /** A JWT is past its `exp` */
+  TOKEN_EXPIRED: 'TOKEN_EXPIRED',
+  /** A query could not be compiled */
+  INVALID_QUERY: 'INVALID_QUERY',
+  /** A value cannot be embedded in SQL */
+  INVALID_SQL_VALUE: 'INVALID_SQL_VALUE',
+  /** A value of an unsupported type was passed as a query parameter */
+  UNSUPPORTED_TYPE: 'UNSUPPORTED_TYPE',
+  /** A table or column name cannot be quoted */
+  INVALID_IDENTIFIER: 'INVALID_IDENTIFIER',
+  /** A query placeholder has no matching parameter */
+  MISSING_PARAMETER: 'MISSING_PARAMETER',
+  /** single() matched no rows */
+  NO_ROWS: 'NO_ROWS',
+  /** single() or maybeSingle() matched more than one row */
+  MULTIPLE_ROWS: 'MULTIPLE_ROWS',
+  /** A method needs client configuration that was not provided, e.g. `auth.jwt` */
+  NOT_CONFIGURED: 'NOT_CONFIGURED',
+  /** A transaction failed or was rolled back; none of its statements were applied */
+  TRANSACTION_ROLLED_BACK: 'TRANSACTION_ROLLED_BACK',
+} as const;
+
+export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
+
+/**
+ * Map an HTTP status to its error code
+ */
+export function codeForStatus(status: number): ErrorCode {
+  switch (status) {
+    case 400:
+      return ErrorCodes.BAD_REQUEST;
+    case 401:
+      return ErrorCodes.UNAUTHORIZED;
+    case 403:
+      return ErrorCodes.FORBIDDEN;
+    case 404:
+      return ErrorCodes.NOT_FOUND;
+    case 408:
+      return ErrorCodes.TIMEOUT;
+    case 409:
+      return ErrorCodes.CONFLICT;
+    case 422:
+      return ErrorCodes.VALIDATION_ERROR;
+    case 429:
+      return ErrorCodes.RATE_LIMITED;
+    default:
+      return status >= 500 ? ErrorCodes.SERVER_ERROR : ErrorCodes.HTTP_ERROR;
+  }
+}
+
+/**
+ * Base class for errors thrown by the SDK
+ */
+export class OrbitNestError extends Error {
+  code: ErrorCode;
+  status?: number;
+  details?: unknown;
+
+  constructor(message: string, code: ErrorCode, status?: number, details?: unknown) {
+    super(message);
+    this.name = 'OrbitNestError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export class AuthError extends OrbitNestError {
+  name = 'AuthError';
+}
+
+export class NotFoundError extends OrbitNestError {
+  name = 'NotFoundError';
+}
+
+export class ConflictError extends OrbitNestError {
+  name = 'ConflictError';
+}
+
+export class RateLimitError extends OrbitNestError {
+  name = 'RateLimitError';
+}
+
+export class TimeoutError extends OrbitNestError {
+  name = 'TimeoutError';
+}
+
+export class NetworkError extends OrbitNestError {
+  name = 'NetworkError';
+}
+
+export class ValidationError extends OrbitNestError {
+  name = 'ValidationError';
+}
+
+export class TransactionError extends OrbitNestError {
+  name = 'TransactionError';
+}
+
+const ERROR_CLASSES: Partial<Record<ErrorCode, typeof OrbitNestError>> = {
+  UNAUTHORIZED: AuthError,
+  FORBIDDEN: AuthError,
+  NO_SESSION: AuthError,
+  INVALID_TOKEN: AuthError,
+  TOKEN_EXPIRED: AuthError,
+  NOT_FOUND: NotFoundError,
+  NO_ROWS: NotFoundError,
+  CONFLICT: ConflictError,
+  RATE_LIMITED: RateLimitError,
+  TIMEOUT: TimeoutError,
+  NETWORK_ERROR: NetworkError,
+  BAD_REQUEST: ValidationError,
+  VALIDATION_ERROR: ValidationError,
+  INVALID_QUERY: ValidationError,
+  INVALID_SQL_VALUE: ValidationError,
+  UNSUPPORTED_TYPE: ValidationError,
+  INVALID_IDENTIFIER: ValidationError,
+  MISSING_PARAMETER: ValidationError,
+  TRANSACTION_ROLLED_BACK: TransactionError,
+};
+
+/**
+ * Convert the error of an ApiResult to the matching error class
+ */
+export function toOrbitNestError(error: ApiError['error']): OrbitNestError {
+  const code = error.code || (error.status ? codeForStatus(error.status) : ErrorCodes.HTTP_ERROR);
+  const ErrorClass = ERROR_CLASSES[code] || OrbitNestError;
+  return new ErrorClass(error.message, code, error.status, error.details);
+}
+
+/**
+ * Resolve to the data of a result, throwing an OrbitNestError on failure
+ *
+ * @example
+ * const { rows } = await throwOnError(client.db.query('SELECT 1'));
+ */
+export async function throwOnError<T>(result: ApiResult<T> | PromiseLike<ApiResult<T>>): Promise<T> {
+  const { data, error } = await result;
+  if (error) {
+    throw toOrbitNestError(error);
+  }
+  return data as T;
+}
+
+function isApiResult(value: unknown): value is ApiResult<unknown> {
+  return typeof value === 'object' && value !== null && 'data' in value && 'error' in value;
+}
+
+function rejectOnError<T>(value: T): T {
+  if (isApiResult(value) && value.error) {
+    throw toOrbitNestError(value.error);
+  }
+  return value;
+}
+
+function isPlainData(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null || Array.isArray(value);
+}
+
+const wrapped = new WeakMap<object, object>();
+
+/**
+ * Wrap a sub-client so that methods throw instead of resolving to an error result
+ * Results keep their `{ data, error }` shape; builders, bucket clients and namespaces such as `auth.admin` are wrapped too.
+ */
+export function withThrowOnError<T extends object>(target: T): T {
+  const cached = wrapped.get(target);
+  if (cached) {
+    return cached as T;
+  }
+
+  const proxy: T = new Proxy(target, {
+    get(obj, prop) {
+      const value = Reflect.get(obj, prop, obj);
+      if (typeof value !== 'function') {
+        return typeof value === 'object' && value !== null && !isPlainData(value) ? withThrowOnError(value) : value;
+      }
+
+      if (prop === 'then') {
+        return (onfulfilled?: (value: unknown) => unknown, onrejected?: (reason: unknown) => unknown) =>
+          value.call(obj, rejectOnError).then(onfulfilled, onrejected);
+      }
+
+      return (...args: unknown[]) => {
+        const result = value.apply(obj, args);
+        if (result === obj) {
+          return proxy;
+        }
+        if (result instanceof Promise) {
+          return result.then(rejectOnError);
+        }
+        if (isApiResult(result)) {
+          return rejectOnError(result);
+        }
+        // Tags configured with options, e.g. db.sql({ signal })
+        if (typeof result === 'function') {
+          return (...tagArgs: unknown[]) => {
+            const tagResult = result(...tagArgs);
+            return tagResult instanceof Promise ? tagResult.then(rejectOnError) : tagResult;
+          };
+        }
+        // Builders and bucket clients are class instances; plain data is returned as-is
+        if (typeof result === 'object' && result !== null && !isPlainData(result)) {
+          return withThrowOnError(result);
+        }
+        return result;
+      };
+    },
+  });
+  wrapped.set(target, proxy);
+  return proxy;
+}
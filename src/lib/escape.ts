@@ -0,0 +1,260 @@
+import type { ErrorCode } from './errors';
+
+/**
+ * Thrown when a value or identifier cannot be safely embedded in SQL
+ */
+export class SqlEscapeError extends Error {
+  constructor(
+    message: string,
+    public code: ErrorCode = 'INVALID_SQL_VALUE'
+  ) {
+    super(message);
+    this.name = 'SqlEscapeError';
+  }
+}
+
+/**
+ * A value sent as a `jsonb` literal, including arrays, which are otherwise sent as Postgres arrays
+ * Create it with `sql.json()`.
+ */
+export class SqlJson {
+  constructor(readonly value: unknown) {}
+}
+
+/**
+ * Quote an identifier (table or column name)
+ * Dotted names are treated as schema-qualified, e.g. `public.users`
+ */
+export function escapeIdentifier(name: string): string {
+  if (!name) {
+    throw new SqlEscapeError('Identifier must be a non-empty string', 'INVALID_IDENTIFIER');
+  }
+  if (name.includes('\0')) {
+    throw new SqlEscapeError(`Identifier contains a null byte: ${name}`, 'INVALID_IDENTIFIER');
+  }
+
+  return name
+    .split('.')
+    .map(part => `"${part.replace(/"/g, '""')}"`)
+    .join('.');
+}
+
+/**
+ * Parenthesize negative numbers: after a `-` in the query, `-5` would start a `--` comment
+ */
+function signedNumber(text: string): string {
+  return text.startsWith('-') ? `(${text})` : text;
+}
+
+/**
+ * Escape a value as a Postgres literal
+ * Supports strings, numbers, bigints, booleans, null, Dates, arrays,
+ * Buffers/Uint8Arrays (as bytea), plain objects (as JSON text) and SqlJson values (as jsonb)
+ */
+export function escapeLiteral(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+
+  if (typeof value === 'number') {
+    // NaN and Infinity are only valid as quoted float literals
+    return Number.isFinite(value) ? signedNumber(String(value)) : `'${value}'`;
+  }
+
+  if (typeof value === 'bigint') {
+    return signedNumber(value.toString());
+  }
+
+  if (typeof value === 'string') {
+    return escapeString(value);
+  }
+
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new SqlEscapeError('Cannot escape an invalid Date');
+    }
+    return escapeString(value.toISOString());
+  }
+
+  if (value instanceof Uint8Array) {
+    return `${escapeString(`\\x${Buffer.from(value).toString('hex')}`)}::bytea`;
+  }
+
+  if (value instanceof SqlJson) {
+    const text = JSON.stringify(value.value);
+    if (text === undefined) {
+      throw new SqlEscapeError(`Cannot serialize ${typeof value.value} as JSON`, 'UNSUPPORTED_TYPE');
+    }
+    return `${escapeString(text)}::jsonb`;
+  }
+
+  if (Array.isArray(value)) {
+    // An empty ARRAY[] has no element type, so use the untyped literal instead
+    return value.length === 0 ? `'{}'` : `ARRAY[${value.map(escapeLiteral).join(', ')}]`;
+  }
+
+  if (isJsonObject(value)) {
+    return escapeString(JSON.stringify(value));
+  }
+
+  const type = typeof value === 'object' ? value.constructor?.name || 'object' : typeof value;
+  throw new SqlEscapeError(`Cannot escape value of type ${type}`, 'UNSUPPORTED_TYPE');
+}
+
+/**
+ * Plain objects and objects with toJSON() are sent as JSON text
+ */
+function isJsonObject(value: unknown): value is object {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null || typeof (value as { toJSON?: unknown }).toJSON === 'function';
+}
+
+function escapeString(value: string): string {
+  if (value.includes('\0')) {
+    throw new SqlEscapeError('Strings containing null bytes are not supported by Postgres');
+  }
+
+  const quoted = value.replace(/'/g, "''");
+
+  // Use an escape string when backslashes are present so the result does not
+  // depend on the server's standard_conforming_strings setting
+  if (quoted.includes('\\')) {
+    return `E'${quoted.replace(/\\/g, '\\\\')}'`;
+  }
+
+  return `'${quoted}'`;
+}
+
+export type QueryParams = unknown[] | Record<string, unknown>;
+
+interface Placeholder {
+  start: number;
+  end: number;
+  kind: 'numbered' | 'anonymous' | 'named';
+  key: string;
+}
+
+/**
+ * Inline parameters into a query as escaped literals
+ *
+ * Arrays fill `$1`-style placeholders, or `?` when the query has no `$n`
+ * placeholders. Objects fill `:name` placeholders. Placeholders inside string
+ * literals, quoted identifiers, comments and dollar-quoted bodies are left alone.
+ */
+export function formatQuery(sql: string, params: QueryParams): string {
+  const named = !Array.isArray(params);
+  let placeholders = scanPlaceholders(sql).filter(p => (p.kind === 'named') === named);
+
+  // `?` is also a jsonb operator, so it is only a placeholder when `$n` is not used
+  if (placeholders.some(p => p.kind === 'numbered')) {
+    placeholders = placeholders.filter(p => p.kind === 'numbered');
+  }
+
+  let output = '';
+  let cursor = 0;
+  let nextIndex = 0;
+
+  for (const placeholder of placeholders) {
+    let value: unknown;
+
+    if (Array.isArray(params)) {
+      const index = placeholder.kind === 'numbered' ? Number(placeholder.key) - 1 : nextIndex++;
+      if (index < 0 || index >= params.length) {
+        throw new SqlEscapeError(
+          `No value provided for placeholder ${sql.slice(placeholder.start, placeholder.end)}`,
+          'MISSING_PARAMETER'
+        );
+      }
+      value = params[index];
+    } else {
+      if (!Object.prototype.hasOwnProperty.call(params, placeholder.key)) {
+        throw new SqlEscapeError(`No value provided for placeholder :${placeholder.key}`, 'MISSING_PARAMETER');
+      }
+      value = params[placeholder.key];
+    }
+
+    output += sql.slice(cursor, placeholder.start) + escapeLiteral(value);
+    cursor = placeholder.end;
+  }
+
+  return output + sql.slice(cursor);
+}
+
+function scanPlaceholders(sql: string): Placeholder[] {
+  const placeholders: Placeholder[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === "'") {
+      const escaped = /[eE]/.test(sql[i - 1] ?? '') && !/[\w$]/.test(sql[i - 2] ?? '');
+      i = skipQuoted(sql, i, "'", escaped);
+    } else if (char === '"') {
+      i = skipQuoted(sql, i, '"', false);
+    } else if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (char === '$') {
+      const numbered = /^\$(\d+)/.exec(sql.slice(i));
+      const tag = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+      if (numbered && !/[\w$]/.test(sql[i - 1] ?? '')) {
+        placeholders.push({ start: i, end: i + numbered[0].length, kind: 'numbered', key: numbered[1] });
+        i += numbered[0].length;
+      } else if (tag) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        i = end === -1 ? sql.length : end + tag[0].length;
+      } else {
+        i++;
+      }
+    } else if (char === ':' && next === ':') {
+      i += 2;
+    } else if (char === ':') {
+      const name = /^:([A-Za-z_][A-Za-z0-9_]*)/.exec(sql.slice(i));
+      if (name) {
+        placeholders.push({ start: i, end: i + name[0].length, kind: 'named', key: name[1] });
+        i += name[0].length;
+      } else {
+        i++;
+      }
+    } else if (char === '?') {
+      placeholders.push({ start: i, end: i + 1, kind: 'anonymous', key: '' });
+      i++;
+    } else {
+      i++;
+    }
+  }
+
+  return placeholders;
+}
+
+/**
+ * Return the index just past the closing quote
+ */
+function skipQuoted(sql: string, start: number, quote: string, backslashEscapes: boolean): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (backslashEscapes && sql[i] === '\\') {
+      i += 2;
+    } else if (sql[i] === quote) {
+      if (sql[i + 1] !== quote) {
+        return i + 1;
+      }
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+}
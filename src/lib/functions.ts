@@ -17,6 +17,8 @@ export class FunctionsClient {
       method: options.method || 'POST',
       body: options.body,
       headers: options.headers,
+      signal: options.signal,
+      auth: 'auto',
     });
 
     if (result.error) {
@@ -0,0 +1,275 @@
+import { constants, createHmac, createPublicKey, timingSafeEqual, verify, type JsonWebKey, type KeyObject } from 'crypto';
+import { codeForStatus } from './errors';
+import type { ErrorCode } from './errors';
+import type { ApiResult, Jwk, JwtClaims, JwtVerifyOptions } from '../types';
+
+export class JwtError extends Error {
+  constructor(
+    message: string,
+    public code: ErrorCode = 'INVALID_TOKEN'
+  ) {
+    super(message);
+    this.name = 'JwtError';
+  }
+}
+
+export interface DecodedJwt<T extends JwtClaims = JwtClaims> {
+  header: { alg: string; typ?: string; kid?: string };
+  payload: T;
+  signature: Buffer;
+  /** `header.payload`, the signed part of the token */
+  signingInput: string;
+}
+
+const HMAC_HASHES: Record<string, string> = { HS256: 'sha256', HS384: 'sha384', HS512: 'sha512' };
+const KEY_HASHES: Record<string, string> = {
+  RS256: 'sha256',
+  RS384: 'sha384',
+  RS512: 'sha512',
+  PS256: 'sha256',
+  PS384: 'sha384',
+  PS512: 'sha512',
+  ES256: 'sha256',
+  ES384: 'sha384',
+  ES512: 'sha512',
+};
+
+// Don't refetch the key set more often than this when tokens carry unknown key ids
+const JWKS_REFETCH_INTERVAL = 30_000;
+
+function decodeSegment(segment: string): unknown {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+/**
+ * Parse a JWT without checking its signature or claims
+ */
+export function decodeJwt<T extends JwtClaims = JwtClaims>(token: string): DecodedJwt<T> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new JwtError('Token must have three dot-separated parts');
+  }
+
+  let header: DecodedJwt['header'];
+  let payload: T;
+  try {
+    header = decodeSegment(parts[0]) as DecodedJwt['header'];
+    payload = decodeSegment(parts[1]) as T;
+  } catch {
+    throw new JwtError('Token header or payload is not valid base64url JSON');
+  }
+
+  if (typeof header?.alg !== 'string' || typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    throw new JwtError('Token header or payload is malformed');
+  }
+
+  return {
+    header,
+    payload,
+    signature: Buffer.from(parts[2], 'base64url'),
+    signingInput: `${parts[0]}.${parts[1]}`,
+  };
+}
+
+/**
+ * Fetch a key set from its own host with a bare request: no API key, middleware or throttling
+ */
+export async function fetchJwks(
+  fetchImpl: typeof fetch,
+  url: string,
+  signal?: AbortSignal
+): Promise<ApiResult<{ keys: Jwk[] }>> {
+  try {
+    const response = await fetchImpl(url, { headers: { Accept: 'application/json' }, signal });
+    if (!response.ok) {
+      return {
+        data: null,
+        error: { message: `Request failed with status ${response.status}`, code: codeForStatus(response.status), status: response.status },
+      };
+    }
+    return { data: await response.json(), error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: signal?.aborted
+        ? { message: 'Request aborted', code: 'ABORTED' }
+        : { message: err instanceof Error ? err.message : 'Unknown error', code: 'NETWORK_ERROR' },
+    };
+  }
+}
+
+/**
+ * Verifies token signatures and claims, caching the key set
+ */
+export class JwtVerifier {
+  private keys: Jwk[] | null;
+  private keysFetchedAt = 0;
+  private fetchingKeys: Promise<void> | null = null;
+
+  constructor(
+    private options: JwtVerifyOptions,
+    private fetchKeys: (url: string, signal?: AbortSignal) => Promise<ApiResult<{ keys: Jwk[] }>>
+  ) {
+    this.keys = options.jwks?.keys ?? null;
+  }
+
+  async verify<T extends JwtClaims = JwtClaims>(token: string, signal?: AbortSignal): Promise<T> {
+    const decoded = decodeJwt<T>(token);
+    const { alg } = decoded.header;
+
+    if (this.options.algorithms && !this.options.algorithms.includes(alg)) {
+      throw new JwtError(`Algorithm ${alg} is not allowed`);
+    }
+
+    if (HMAC_HASHES[alg]) {
+      this.verifyHmac(decoded);
+    } else if (KEY_HASHES[alg] || alg === 'EdDSA') {
+      await this.verifyWithKeys(decoded, signal);
+    } else {
+      throw new JwtError(`Unsupported algorithm ${alg}`);
+    }
+
+    this.checkClaims(decoded.payload);
+    return decoded.payload;
+  }
+
+  private verifyHmac(decoded: DecodedJwt): void {
+    if (!this.options.secret) {
+      throw new JwtError(`No secret configured for ${decoded.header.alg} tokens`);
+    }
+
+    const expected = createHmac(HMAC_HASHES[decoded.header.alg], this.options.secret)
+      .update(decoded.signingInput)
+      .digest();
+    if (expected.length !== decoded.signature.length || !timingSafeEqual(expected, decoded.signature)) {
+      throw new JwtError('Invalid token signature');
+    }
+  }
+
+  private async verifyWithKeys(decoded: DecodedJwt, signal?: AbortSignal): Promise<void> {
+    const { alg, kid } = decoded.header;
+    let candidates = await this.findKeys(alg, kid, signal);
+
+    // A new key id usually means the keys were rotated
+    if (candidates.length === 0 && kid && this.canRefetch()) {
+      await this.loadKeys(signal);
+      candidates = await this.findKeys(alg, kid, signal);
+    }
+
+    if (candidates.length === 0) {
+      throw new JwtError(kid ? `No key found for kid ${kid}` : `No key found for ${alg} tokens`);
+    }
+
+    const data = Buffer.from(decoded.signingInput);
+    const valid = candidates.some(key => verifySignature(alg, key, data, decoded.signature));
+    if (!valid) {
+      throw new JwtError('Invalid token signature');
+    }
+  }
+
+  private async findKeys(alg: string, kid: string | undefined, signal?: AbortSignal): Promise<KeyObject[]> {
+    if (!this.keys) {
+      await this.loadKeys(signal);
+    }
+
+    return (this.keys || [])
+      .filter(jwk => jwk.use !== 'enc' && (!kid || jwk.kid === kid) && (!jwk.alg || jwk.alg === alg))
+      .flatMap(jwk => {
+        try {
+          return [createPublicKey({ key: jwk as JsonWebKey, format: 'jwk' })];
+        } catch {
+          return [];
+        }
+      });
+  }
+
+  private canRefetch(): boolean {
+    return !!this.options.jwksUrl && Date.now() - this.keysFetchedAt >= JWKS_REFETCH_INTERVAL;
+  }
+
+  private loadKeys(signal?: AbortSignal): Promise<void> {
+    const url = this.options.jwksUrl;
+    if (!url) {
+      if (!this.keys) {
+        throw new JwtError('No jwksUrl or jwks configured for asymmetric tokens');
+      }
+      return Promise.resolve();
+    }
+
+    if (!this.fetchingKeys) {
+      this.fetchingKeys = this.fetchKeys(url, signal)
+        .then(result => {
+          if (result.error) {
+            throw new JwtError(`Failed to fetch JWKS: ${result.error.message}`, result.error.code);
+          }
+          if (!Array.isArray(result.data?.keys)) {
+            throw new JwtError('JWKS response has no keys array', 'INVALID_RESPONSE');
+          }
+          this.keys = result.data.keys;
+          this.keysFetchedAt = Date.now();
+        })
+        .finally(() => {
+          this.fetchingKeys = null;
+        });
+    }
+    return this.fetchingKeys;
+  }
+
+  private checkClaims(payload: JwtClaims): void {
+    const now = Date.now() / 1000;
+    const tolerance = this.options.clockTolerance ?? 0;
+
+    if (payload.exp === undefined && this.options.requireExp !== false) {
+      throw new JwtError('Token has no exp claim');
+    }
+    if (payload.exp !== undefined && (typeof payload.exp !== 'number' || payload.exp + tolerance <= now)) {
+      throw new JwtError('Token has expired', 'TOKEN_EXPIRED');
+    }
+    if (payload.nbf !== undefined && (typeof payload.nbf !== 'number' || payload.nbf - tolerance > now)) {
+      throw new JwtError('Token is not valid yet');
+    }
+
+    const issuers = toList(this.options.issuer);
+    if (issuers && (!payload.iss || !issuers.includes(payload.iss))) {
+      throw new JwtError(`Unexpected token issuer ${payload.iss ?? '(none)'}`);
+    }
+
+    const audiences = toList(this.options.audience);
+    const tokenAudiences = toList(payload.aud) || [];
+    if (audiences && !tokenAudiences.some(aud => audiences.includes(aud))) {
+      throw new JwtError(`Unexpected token audience ${tokenAudiences.join(', ') || '(none)'}`);
+    }
+  }
+}
+
+function toList(value: string | string[] | undefined): string[] | null {
+  if (value === undefined) {
+    return null;
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function verifySignature(alg: string, key: KeyObject, data: Buffer, signature: Buffer): boolean {
+  try {
+    if (alg === 'EdDSA') {
+      return verify(null, data, key, signature);
+    }
+
+    const hash = KEY_HASHES[alg];
+    if (alg.startsWith('PS')) {
+      return verify(
+        hash,
+        data,
+        { key, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST },
+        signature
+      );
+    }
+    if (alg.startsWith('ES')) {
+      // JWS uses raw r||s signatures rather than DER
+      return verify(hash, data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+    }
+    return verify(hash, data, key, signature);
+  } catch {
+    return false;
+  }
+}
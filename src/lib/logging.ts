@@ -1,4 +1,6 @@
 import type { HttpClient } from './client';
+import { paginate } from './paginate';
+import type { IterateOptions } from './paginate';
 import type { ApiResult } from '../types';
 
 export interface LogEntry {
@@ -17,6 +19,7 @@ export interface LogQueryOptions {
   limit?: number;
   offset?: number;
   source?: string;
+  signal?: AbortSignal;
 }
 
 export class LoggingClient {
@@ -39,7 +42,24 @@ export class LoggingClient {
     if (options.source) params.set('source', options.source);
 
     const query = params.toString() ? `?${params.toString()}` : '';
-    return this.client.request<LogEntry[]>(`${this.basePath}${query}`);
+    return this.client.request<LogEntry[]>(`${this.basePath}${query}`, { signal: options.signal });
+  }
+
+  /**
+   * Iterate over all logs matching the query, one page at a time
+   * `offset` sets the starting point; `limit` is ignored in favour of `pageSize`.
+   */
+  iterate(query: Omit<LogQueryOptions, 'limit'> & IterateOptions = {}): AsyncGenerator<LogEntry, void, undefined> {
+    const { pageSize, prefetch, signal, ...filters } = query;
+    const start = filters.offset ?? 0;
+
+    return paginate<LogEntry>(
+      async ({ offset, limit }, pageSignal) => {
+        const result = await this.getLogs({ ...filters, offset: start + offset, limit, signal: pageSignal });
+        return result.error ? result : { data: { items: result.data }, error: null };
+      },
+      { pageSize, prefetch, signal }
+    );
   }
 
   /**
@@ -51,7 +71,7 @@ export class LoggingClient {
     if (options.since) params.set('since', options.since.toISOString());
 
     const query = params.toString() ? `?${params.toString()}` : '';
-    return this.client.request<LogEntry[]>(`${this.basePath}/database${query}`);
+    return this.client.request<LogEntry[]>(`${this.basePath}/database${query}`, { signal: options.signal });
   }
 
   /**
@@ -62,7 +82,7 @@ export class LoggingClient {
     if (options.limit) params.set('limit', options.limit.toString());
 
     const query = params.toString() ? `?${params.toString()}` : '';
-    return this.client.request<LogEntry[]>(`${this.basePath}/database/slow${query}`);
+    return this.client.request<LogEntry[]>(`${this.basePath}/database/slow${query}`, { signal: options.signal });
   }
 
   /**
@@ -74,7 +94,7 @@ export class LoggingClient {
     if (options.since) params.set('since', options.since.toISOString());
 
     const query = params.toString() ? `?${params.toString()}` : '';
-    return this.client.request<LogEntry[]>(`${this.basePath}/auth${query}`);
+    return this.client.request<LogEntry[]>(`${this.basePath}/auth${query}`, { signal: options.signal });
   }
 
   /**
@@ -85,7 +105,7 @@ export class LoggingClient {
     if (options.limit) params.set('limit', options.limit.toString());
 
     const query = params.toString() ? `?${params.toString()}` : '';
-    return this.client.request<LogEntry[]>(`${this.basePath}/auth/failures${query}`);
+    return this.client.request<LogEntry[]>(`${this.basePath}/auth/failures${query}`, { signal: options.signal });
   }
 
   /**
@@ -104,6 +124,6 @@ export class LoggingClient {
       ? `${this.basePath}/edge-functions/${functionName}`
       : `${this.basePath}/edge-functions`;
 
-    return this.client.request<LogEntry[]>(`${path}${query}`);
+    return this.client.request<LogEntry[]>(`${path}${query}`, { signal: options.signal });
   }
 }
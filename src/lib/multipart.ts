@@ -0,0 +1,116 @@
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+
+/**
+ * Data accepted by multipart uploads
+ * `{ filePath }` streams a local file without reading it into memory.
+ */
+export type UploadSource =
+  | Blob
+  | Buffer
+  | ArrayBuffer
+  | Uint8Array
+  | Readable
+  | ReadableStream<Uint8Array>
+  | { filePath: string };
+
+export interface UploadPart {
+  partNumber: number;
+  data: Uint8Array;
+}
+
+export function isStreamSource(source: unknown): source is Readable | ReadableStream<Uint8Array> | { filePath: string } {
+  return (
+    source instanceof Readable ||
+    (typeof ReadableStream !== 'undefined' && source instanceof ReadableStream) ||
+    (typeof source === 'object' && source !== null && 'filePath' in source)
+  );
+}
+
+/**
+ * Total size of the source, when it can be known without reading it
+ */
+export async function sourceSize(source: UploadSource): Promise<number | undefined> {
+  if (source instanceof Blob) return source.size;
+  if (source instanceof ArrayBuffer || source instanceof Uint8Array) return source.byteLength;
+  if ('filePath' in source) return (await stat(source.filePath)).size;
+  return undefined;
+}
+
+/**
+ * Split the source into parts of `partSize` bytes, reading streams sequentially
+ * Always yields at least one (possibly empty) part.
+ */
+export async function* readParts(source: UploadSource, partSize: number): AsyncGenerator<UploadPart, void, undefined> {
+  let partNumber = 1;
+
+  if (source instanceof Blob) {
+    for (let offset = 0; offset < source.size || partNumber === 1; offset += partSize) {
+      const data = new Uint8Array(await source.slice(offset, offset + partSize).arrayBuffer());
+      yield { partNumber: partNumber++, data };
+    }
+    return;
+  }
+
+  if (source instanceof ArrayBuffer || source instanceof Uint8Array) {
+    const bytes = source instanceof ArrayBuffer ? new Uint8Array(source) : source;
+    for (let offset = 0; offset < bytes.byteLength || partNumber === 1; offset += partSize) {
+      yield { partNumber: partNumber++, data: bytes.subarray(offset, offset + partSize) };
+    }
+    return;
+  }
+
+  let pending: Uint8Array[] = [];
+  let pendingSize = 0;
+
+  for await (const chunk of streamChunks(source)) {
+    let rest = chunk;
+    while (pendingSize + rest.byteLength >= partSize) {
+      const take = partSize - pendingSize;
+      pending.push(rest.subarray(0, take));
+      rest = rest.subarray(take);
+      yield { partNumber: partNumber++, data: Buffer.concat(pending) };
+      pending = [];
+      pendingSize = 0;
+    }
+    if (rest.byteLength > 0) {
+      pending.push(rest);
+      pendingSize += rest.byteLength;
+    }
+  }
+
+  if (pendingSize > 0 || partNumber === 1) {
+    yield { partNumber, data: Buffer.concat(pending) };
+  }
+}
+
+async function* streamChunks(
+  source: Readable | ReadableStream<Uint8Array> | { filePath: string }
+): AsyncGenerator<Uint8Array, void, undefined> {
+  if (source instanceof Readable || 'filePath' in source) {
+    const stream = source instanceof Readable ? source : createReadStream(source.filePath);
+    try {
+      for await (const chunk of stream) {
+        yield typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      }
+    } finally {
+      // Release the file handle when the upload stops early
+      if (!(source instanceof Readable)) {
+        stream.destroy();
+      }
+    }
+    return;
+  }
+
+  const reader = source.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
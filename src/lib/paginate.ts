@@ -0,0 +1,91 @@
+import { toOrbitNestError } from './errors';
+import type { ApiResult, SignalOptions } from '../types';
+
+export interface IterateOptions extends SignalOptions {
+  /** Items requested per page (default 100) */
+  pageSize?: number;
+  /** Request the next page while the current one is being consumed (default false) */
+  prefetch?: boolean;
+}
+
+/**
+ * Fetch one page; when the source reports `total`, iteration continues until that many items were seen
+ * `offset` counts the items received so far, so a server that caps the page size skips nothing.
+ */
+export type PageFetcher<T> = (
+  page: { index: number; offset: number; limit: number },
+  signal: AbortSignal
+) => Promise<ApiResult<{ items: T[]; total?: number }>>;
+
+/**
+ * Yield the items of consecutive pages, fetching lazily
+ * Stops at an empty page, once `total` items were seen, or at a short page when there is no total.
+ * With `identify`, a page that repeats the previous one also stops it, for sources that ignore the offset.
+ * Errors are thrown as OrbitNestError; breaking out of the loop cancels a prefetched page.
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options: IterateOptions = {},
+  identify?: (item: T) => string
+): AsyncGenerator<T, void, undefined> {
+  const limit = Math.max(1, Math.floor(options.pageSize ?? 100));
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+  if (options.signal?.aborted) {
+    controller.abort();
+  }
+
+  const load = (index: number, offset: number) => {
+    const request = fetchPage({ index, offset, limit }, controller.signal);
+    // A prefetched page may be abandoned; don't let its failure go unhandled
+    request.catch(() => undefined);
+    return request;
+  };
+
+  let seen = 0;
+  let index = 0;
+  let previousKeys: string | null = null;
+  let next = load(0, 0);
+
+  try {
+    while (true) {
+      const { data, error } = await next;
+      if (error) {
+        throw toOrbitNestError(error);
+      }
+
+      const { items, total } = data;
+      if (identify) {
+        const keys = JSON.stringify(items.map(identify));
+        if (keys === previousKeys) {
+          return;
+        }
+        previousKeys = keys;
+      }
+
+      seen += items.length;
+      const done = items.length === 0 || (total !== undefined ? seen >= total : items.length < limit);
+      if (!done) {
+        index++;
+        if (options.prefetch) {
+          next = load(index, seen);
+        }
+      }
+
+      for (const item of items) {
+        yield item;
+      }
+
+      if (done) {
+        return;
+      }
+      if (!options.prefetch) {
+        next = load(index, seen);
+      }
+    }
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
+    controller.abort();
+  }
+}
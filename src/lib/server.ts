@@ -0,0 +1,247 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { OrbitNestError, toOrbitNestError } from './errors';
+import { decodeJwt } from './jwt';
+import type { OrbitNestClient } from '../index';
+import type { ApiError, ApiResult, AuthUser, JwtClaims } from '../types';
+
+/**
+ * The authenticated user attached to a request
+ */
+export interface RequestUser {
+  id: string;
+  email?: string;
+  role?: string;
+  user_metadata?: Record<string, unknown>;
+  /** Verified token claims (`verify: 'jwt'`) */
+  claims?: JwtClaims;
+  /** Full profile from the API (`verify: 'profile'`) */
+  profile?: AuthUser;
+}
+
+export interface RequestAuth {
+  user: RequestUser;
+  token: string;
+  /** Client scoped to the user's token */
+  client: OrbitNestClient;
+}
+
+declare module 'http' {
+  interface IncomingMessage {
+    /** Set by the OrbitNest auth middleware */
+    orbitnestUser?: RequestUser;
+    /** Client scoped to the request's user, set by the OrbitNest auth middleware */
+    orbitnest?: OrbitNestClient;
+  }
+}
+
+export interface AuthMiddlewareOptions {
+  /**
+   * How the bearer token is checked: `profile` asks the API for the user (default),
+   * `jwt` verifies it locally with auth.verifyToken (needs `auth.jwt`)
+   */
+  verify?: 'profile' | 'jwt';
+  /** Continue without a user when no token is sent instead of responding 401 (default 'reject') */
+  onMissing?: 'reject' | 'allow';
+  /** Continue without a user when the token has expired instead of responding 401 (default 'reject') */
+  onExpired?: 'reject' | 'allow';
+  /** Read the token from somewhere other than the `Authorization: Bearer` header */
+  getToken?: (req: { headers: IncomingMessage['headers'] }) => string | null | undefined;
+}
+
+type AuthOutcome =
+  | { status: 'authenticated'; auth: RequestAuth }
+  | { status: 'anonymous' }
+  | { status: 'rejected'; error: ApiError['error'] }
+  | { status: 'failed'; error: ApiError['error'] };
+
+const AUTH_ERROR_CODES = new Set(['UNAUTHORIZED', 'FORBIDDEN', 'NO_SESSION', 'INVALID_TOKEN', 'TOKEN_EXPIRED']);
+
+function bearerToken(req: { headers: IncomingMessage['headers'] }): string | null {
+  const header = req.headers.authorization;
+  const match = typeof header === 'string' ? /^Bearer\s+(\S+)\s*$/i.exec(header) : null;
+  return match ? match[1] : null;
+}
+
+function tokenExpiry(token: string): number | undefined {
+  try {
+    const { exp } = decodeJwt(token).payload;
+    return typeof exp === 'number' ? exp : undefined;
+  } catch {
+    // Opaque tokens are checked by the API
+    return undefined;
+  }
+}
+
+/**
+ * Resolve a promise to a result even when the client throws on errors
+ */
+async function settle<T>(promise: Promise<ApiResult<T>>): Promise<ApiResult<T>> {
+  try {
+    return await promise;
+  } catch (err) {
+    if (err instanceof OrbitNestError) {
+      return { data: null, error: { message: err.message, code: err.code, status: err.status, details: err.details } };
+    }
+    throw err;
+  }
+}
+
+async function authenticate(
+  client: OrbitNestClient,
+  req: { headers: IncomingMessage['headers'] },
+  options: AuthMiddlewareOptions
+): Promise<AuthOutcome> {
+  const token = (options.getToken || bearerToken)(req);
+  if (!token) {
+    return options.onMissing === 'allow'
+      ? { status: 'anonymous' }
+      : { status: 'rejected', error: { message: 'Missing bearer token', code: 'UNAUTHORIZED', status: 401 } };
+  }
+
+  let user: RequestUser;
+  let scoped: OrbitNestClient;
+
+  if (options.verify === 'jwt') {
+    const { data: claims, error } = await settle(client.auth.verifyToken(token));
+    if (error) {
+      return classify(error, options);
+    }
+    user = { id: claims.sub ?? '', email: claims.email, role: claims.role, user_metadata: claims.user_metadata, claims };
+    scoped = client.asUser(token);
+  } else {
+    scoped = client.asUser(token);
+    const expiresAt = tokenExpiry(token);
+    if (expiresAt !== undefined && expiresAt * 1000 <= Date.now()) {
+      return classify({ message: 'Token has expired', code: 'TOKEN_EXPIRED' }, options);
+    }
+
+    const { data: profile, error } = await settle(scoped.auth.getProfile());
+    if (error) {
+      return classify(error, options);
+    }
+    user = { id: profile.id, email: profile.email, user_metadata: profile.user_metadata, profile };
+    scoped.auth.setSession({ ...scoped.auth.getSession()!, user: profile });
+  }
+
+  return { status: 'authenticated', auth: { user, token, client: scoped } };
+}
+
+function classify(error: ApiError['error'], options: AuthMiddlewareOptions): AuthOutcome {
+  if (!error.code || !AUTH_ERROR_CODES.has(error.code)) {
+    return { status: 'failed', error };
+  }
+  if (error.code === 'TOKEN_EXPIRED' && options.onExpired === 'allow') {
+    return { status: 'anonymous' };
+  }
+  return { status: 'rejected', error: { message: error.message, code: error.code, status: 401 } };
+}
+
+function attach(req: IncomingMessage | Record<string, unknown>, auth: RequestAuth): void {
+  Object.assign(req, { orbitnestUser: auth.user, orbitnest: auth.client });
+}
+
+function sendError(res: ServerResponse, status: number, error: ApiError['error']): void {
+  res.statusCode = status;
+  if (status === 401) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+  }
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ error: { message: error.message, code: error.code } }));
+}
+
+/**
+ * Authenticate a Node `http` request
+ * Resolves to true when the request may continue; otherwise a 401 or 503 response has been sent.
+ *
+ * @example
+ * const auth = createHttpAuth(client);
+ * http.createServer(async (req, res) => {
+ *   if (!(await auth(req, res))) return;
+ *   const { data } = await req.orbitnest!.db.from('todos').select();
+ * });
+ */
+export function createHttpAuth(
+  client: OrbitNestClient,
+  options: AuthMiddlewareOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => Promise<boolean> {
+  return async (req, res) => {
+    const outcome = await authenticate(client, req, options);
+    switch (outcome.status) {
+      case 'authenticated':
+        attach(req, outcome.auth);
+        return true;
+      case 'anonymous':
+        return true;
+      case 'rejected':
+        sendError(res, 401, outcome.error);
+        return false;
+      case 'failed':
+        sendError(res, 503, outcome.error);
+        return false;
+    }
+  };
+}
+
+/**
+ * Express/Connect middleware
+ * Rejected requests get a 401; API failures are passed to `next(err)`.
+ *
+ * @example
+ * app.use(expressAuth(client, { onMissing: 'allow' }));
+ */
+export function expressAuth(
+  client: OrbitNestClient,
+  options: AuthMiddlewareOptions = {}
+): (req: IncomingMessage, res: ServerResponse, next: (err?: unknown) => void) => void {
+  return (req, res, next) => {
+    authenticate(client, req, options).then(outcome => {
+      switch (outcome.status) {
+        case 'authenticated':
+          attach(req, outcome.auth);
+          next();
+          break;
+        case 'anonymous':
+          next();
+          break;
+        case 'rejected':
+          sendError(res, 401, outcome.error);
+          break;
+        case 'failed':
+          next(toOrbitNestError(outcome.error));
+          break;
+      }
+    }, next);
+  };
+}
+
+/**
+ * Fastify `onRequest` hook
+ * Sets `request.orbitnestUser` and `request.orbitnest`; API failures are thrown to Fastify's error handler.
+ *
+ * @example
+ * fastify.addHook('onRequest', fastifyAuth(client, { verify: 'jwt' }));
+ */
+export function fastifyAuth(
+  client: OrbitNestClient,
+  options: AuthMiddlewareOptions = {}
+): (
+  request: { headers: IncomingMessage['headers'] },
+  reply: { code(status: number): { send(payload: unknown): unknown }; header(name: string, value: string): unknown }
+) => Promise<void> {
+  return async (request, reply) => {
+    const outcome = await authenticate(client, request, options);
+    switch (outcome.status) {
+      case 'authenticated':
+        attach(request, outcome.auth);
+        return;
+      case 'anonymous':
+        return;
+      case 'rejected':
+        reply.header('WWW-Authenticate', 'Bearer');
+        await reply.code(401).send({ error: { message: outcome.error.message, code: outcome.error.code } });
+        return;
+      case 'failed':
+        throw toOrbitNestError(outcome.error);
+    }
+  };
+}
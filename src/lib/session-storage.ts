@@ -0,0 +1,80 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import type { SessionStorage } from '../types';
+
+/**
+ * Keeps sessions in memory for the lifetime of the process
+ */
+export class MemorySessionStorage implements SessionStorage {
+  private items = new Map<string, string>();
+
+  get(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  set(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  remove(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Keeps sessions in a JSON file readable only by the current user
+ * Defaults to `~/.orbitnest/sessions.json`.
+ */
+export class FileSessionStorage implements SessionStorage {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string = join(homedir(), '.orbitnest', 'sessions.json')) {}
+
+  async get(key: string): Promise<string | null> {
+    await this.writing;
+    const items = await this.read();
+    return items[key] ?? null;
+  }
+
+  set(key: string, value: string): Promise<void> {
+    return this.update(items => {
+      items[key] = value;
+    });
+  }
+
+  remove(key: string): Promise<void> {
+    return this.update(items => {
+      delete items[key];
+    });
+  }
+
+  private async read(): Promise<Record<string, string>> {
+    try {
+      return JSON.parse(await readFile(this.filePath, 'utf8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Apply a change and write the file atomically, one write at a time
+   */
+  private update(change: (items: Record<string, string>) => void): Promise<void> {
+    const write = this.writing.then(async () => {
+      const items = await this.read();
+      change(items);
+
+      await mkdir(dirname(this.filePath), { recursive: true, mode: 0o700 });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(items, null, 2), { mode: 0o600 });
+      await rename(tempPath, this.filePath);
+    });
+
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+}
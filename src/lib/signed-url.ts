@@ -0,0 +1,130 @@
+import { fetchJwks, JwtError, JwtVerifier } from './jwt';
+import type { ApiResult, JwtClaims, JwtVerifyOptions, SignalOptions } from '../types';
+
+/**
+ * Claims carried by the token of a signed storage URL
+ */
+export interface SignedUrlClaims extends JwtClaims {
+  /** `<bucket>/<path>` of the object the URL grants access to */
+  url: string;
+  /** Present on signed upload URLs */
+  upload?: boolean;
+}
+
+export interface VerifiedSignedUrl {
+  bucket: string;
+  path: string;
+  /** The URL grants an upload rather than a download */
+  upload: boolean;
+  expiresAt: Date | null;
+  claims: SignedUrlClaims;
+}
+
+export interface SignedUrlVerifierOptions extends JwtVerifyOptions {
+  /** Fetch implementation used to load `jwksUrl` (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+export interface VerifySignedUrlOptions extends SignalOptions {
+  /** Which access the URL must grant (default `download`) */
+  purpose?: 'download' | 'upload';
+}
+
+/**
+ * Percent-encode each segment of an object path, keeping the `/` separators
+ */
+export function encodeObjectPath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Build the public URL of a storage object, optionally carrying a signed token
+ * The bucket and each path segment are percent-encoded; SignedUrlVerifier decodes them the same way.
+ */
+export function storageObjectUrl(
+  baseUrl: string,
+  projectSlug: string,
+  bucket: string,
+  path: string,
+  params: Record<string, string | undefined> = {}
+): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, value);
+  }
+
+  const search = query.toString();
+  return `${baseUrl}/api/public/${projectSlug}/storage/${encodeURIComponent(bucket)}/${encodeObjectPath(path)}${search ? `?${search}` : ''}`;
+}
+
+/**
+ * Checks signed storage URLs without calling the API, e.g. inside edge functions
+ * Configure it with the same key material as `auth.jwt`.
+ *
+ * @example
+ * const verifier = new SignedUrlVerifier({ secret: process.env.ORBITNEST_JWT_SECRET });
+ * const { data, error } = await verifier.verify(request.url);
+ */
+export class SignedUrlVerifier {
+  private verifier: JwtVerifier;
+
+  constructor({ fetch: fetchImpl, ...options }: SignedUrlVerifierOptions) {
+    if (!options.secret && !options.jwksUrl && !options.jwks) {
+      throw new Error('OrbitNest: SignedUrlVerifier needs a secret, jwksUrl or jwks');
+    }
+    if (options.jwksUrl && !/^https?:\/\//i.test(options.jwksUrl)) {
+      throw new Error('OrbitNest: SignedUrlVerifier needs an absolute jwksUrl');
+    }
+
+    this.verifier = new JwtVerifier(options, (url, signal) =>
+      fetchJwks(fetchImpl || ((input, init) => fetch(input, init)), url, signal)
+    );
+  }
+
+  /**
+   * Verify the token of a signed URL and that it was issued for the object the URL points at
+   */
+  async verify(url: string | URL, { signal, purpose = 'download' }: VerifySignedUrlOptions = {}): Promise<ApiResult<VerifiedSignedUrl>> {
+    try {
+      const parsed = typeof url === 'string' ? new URL(url, 'http://localhost') : url;
+      const token = parsed.searchParams.get('token');
+      if (!token) {
+        throw new JwtError('Signed URL has no token');
+      }
+
+      const match = /\/api\/public\/[^/]+\/storage\/([^/]+)\/(.+)$/.exec(parsed.pathname);
+      if (!match) {
+        throw new JwtError('Not a storage object URL');
+      }
+      const bucket = decodeURIComponent(match[1]);
+      const path = match[2].split('/').map(decodeURIComponent).join('/');
+
+      const claims = await this.verifier.verify<SignedUrlClaims>(token, signal);
+      if (claims.url !== `${bucket}/${path}`) {
+        throw new JwtError('Signed URL token was issued for a different object');
+      }
+      if (!!claims.upload !== (purpose === 'upload')) {
+        throw new JwtError(`Signed URL does not grant ${purpose} access`);
+      }
+
+      return {
+        data: {
+          bucket,
+          path,
+          upload: !!claims.upload,
+          expiresAt: typeof claims.exp === 'number' ? new Date(claims.exp * 1000) : null,
+          claims,
+        },
+        error: null,
+      };
+    } catch (err) {
+      if (err instanceof JwtError) {
+        return { data: null, error: { message: err.message, code: err.code } };
+      }
+      if (err instanceof URIError || err instanceof TypeError) {
+        return { data: null, error: { message: `Malformed signed URL: ${err.message}`, code: 'INVALID_TOKEN' } };
+      }
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { escapeIdentifier, escapeLiteral, SqlEscapeError, SqlJson } from './escape';
+
+/**
+ * A piece of already-escaped SQL that can be embedded in other fragments
+ */
+export class SqlFragment {
+  constructor(readonly text: string) {}
+
+  toString(): string {
+    return this.text;
+  }
+}
+
+export interface SqlTag {
+  (strings: TemplateStringsArray, ...values: unknown[]): SqlFragment;
+  /** Quote one or more identifiers, joined with `, ` */
+  ident(...names: string[]): SqlFragment;
+  /** Send a value as `jsonb`; use it for arrays bound to json columns or parameters */
+  json(value: unknown): SqlJson;
+  /** Embed trusted SQL text without escaping */
+  raw(text: string): SqlFragment;
+  /** Join fragments and values with a separator (default `, `) */
+  join(values: unknown[], separator?: string | SqlFragment): SqlFragment;
+  /**
+   * Build a multi-row VALUES list
+   * Object rows produce `("a", "b") VALUES (...), (...)` using the keys of the
+   * first row unless `columns` is given; missing keys become DEFAULT.
+   * Array rows produce `VALUES (...), (...)`.
+   */
+  values(rows: Array<Record<string, unknown> | unknown[]>, columns?: string[]): SqlFragment;
+}
+
+function toSql(value: unknown): string {
+  return value instanceof SqlFragment ? value.text : escapeLiteral(value);
+}
+
+function template(strings: TemplateStringsArray, ...values: unknown[]): SqlFragment {
+  let text = strings[0];
+  values.forEach((value, i) => {
+    text += toSql(value) + strings[i + 1];
+  });
+  return new SqlFragment(text);
+}
+
+/**
+ * Tagged template for building escaped SQL
+ * Interpolated values are escaped as literals; fragments are embedded as-is.
+ * Throws SqlEscapeError for values that cannot be escaped.
+ *
+ * @example
+ * const query = sql`SELECT * FROM ${sql.ident(table)} WHERE id = ${id}`;
+ */
+export const sql: SqlTag = Object.assign(template, {
+  ident(...names: string[]): SqlFragment {
+    return new SqlFragment(names.map(escapeIdentifier).join(', '));
+  },
+
+  json(value: unknown): SqlJson {
+    return new SqlJson(value);
+  },
+
+  raw(text: string): SqlFragment {
+    return new SqlFragment(text);
+  },
+
+  join(values: unknown[], separator: string | SqlFragment = ', '): SqlFragment {
+    return new SqlFragment(values.map(toSql).join(String(separator)));
+  },
+
+  values(rows: Array<Record<string, unknown> | unknown[]>, columns?: string[]): SqlFragment {
+    if (rows.length === 0) {
+      throw new SqlEscapeError('sql.values() requires at least one row');
+    }
+
+    if (Array.isArray(rows[0])) {
+      const tuples = rows.map(row => `(${(row as unknown[]).map(toSql).join(', ')})`);
+      return new SqlFragment(`VALUES ${tuples.join(', ')}`);
+    }
+
+    const keys = columns ?? Object.keys(rows[0]);
+    if (keys.length === 0) {
+      throw new SqlEscapeError('sql.values() requires at least one column');
+    }
+
+    const tuples = rows.map(row => {
+      const record = row as Record<string, unknown>;
+      return `(${keys.map(key => (key in record ? toSql(record[key]) : 'DEFAULT')).join(', ')})`;
+    });
+    return new SqlFragment(`(${keys.map(escapeIdentifier).join(', ')}) VALUES ${tuples.join(', ')}`);
+  },
+});
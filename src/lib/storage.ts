@@ -1,5 +1,20 @@
+import { randomBytes } from 'crypto';
+import { createWriteStream } from 'fs';
+import { mkdir, readFile, rename, stat, unlink } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
 import type { HttpClient } from './client';
-import type { ApiResult } from '../types';
+import { OrbitNestError } from './errors';
+import { paginate } from './paginate';
+import { isStreamSource, readParts, sourceSize } from './multipart';
+import { encodeObjectPath, SignedUrlVerifier, storageObjectUrl } from './signed-url';
+import { etagMd5, fileMd5, pathFilter, walkDirectory } from './sync';
+import type { LocalFile } from './sync';
+import type { UploadSource } from './multipart';
+import type { IterateOptions } from './paginate';
+import type { ApiError, ApiResult, JwtVerifyOptions, RequestOptions, SignalOptions } from '../types';
 
 export interface StorageFile {
   id: string;
@@ -11,28 +26,269 @@ export interface StorageFile {
   size: number;
   url: string;
   createdAt: string;
+  updatedAt?: string;
+  cacheControl?: string;
+  etag?: string;
+}
+
+export interface StorageBucketInfo {
+  name: string;
+  /** Files can be read through public URLs without a token */
+  public: boolean;
+  /** Largest accepted file in bytes; null for no limit */
+  fileSizeLimit: number | null;
+  /** Accepted MIME types, e.g. `image/*`; null accepts any type */
+  allowedMimeTypes: string[] | null;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface BucketOptions {
+  public?: boolean;
+  fileSizeLimit?: number | null;
+  allowedMimeTypes?: string[] | null;
+}
+
+export interface MoveOptions extends SignalOptions {
+  /** Replace a file that already exists at the destination */
+  upsert?: boolean;
+}
+
+export interface FileMetadataUpdate {
+  contentType?: string;
+  cacheControl?: string;
 }
 
 export interface StorageListItem {
   name: string;
   size: number;
   createdAt: string;
+  /** MD5 of the content for files uploaded in one request */
+  etag?: string;
 }
 
 export interface UploadOptions {
   cacheControl?: string;
   upsert?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface UploadProgress {
+  /** Bytes uploaded so far, including parts completed before a resume */
+  bytesSent: number;
+  /** Size of the source, when known */
+  totalBytes?: number;
+  /** Part that just finished */
+  partNumber: number;
+}
+
+export interface MultipartUploadOptions extends UploadOptions {
+  /** Bytes per part (default 8 MiB) */
+  partSize?: number;
+  /** Parts uploaded in parallel (default 4) */
+  concurrency?: number;
+  /** Attempts per part before the upload fails (default 3) */
+  partAttempts?: number;
+  contentType?: string;
+  /** Continue an interrupted upload; the source must supply the same bytes */
+  uploadId?: string;
+  /** Called with the id of a new upload, e.g. to persist it for resuming */
+  onUploadId?: (uploadId: string) => void;
+  /** Keep the server-side upload when a part fails so it can be resumed (default true); otherwise it is discarded */
+  keepOnFailure?: boolean;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export interface MultipartUpload {
+  uploadId: string;
+  path: string;
+  parts: Array<{ partNumber: number; size: number; etag: string }>;
+}
+
+export interface ByteRange {
+  /** First byte, zero-based */
+  start: number;
+  /** Last byte, inclusive (default: end of file) */
+  end?: number;
+}
+
+export interface DownloadOptions extends SignalOptions {
+  /** Read only part of the file */
+  range?: ByteRange;
+  /** Skip the body when the file still has this ETag */
+  ifNoneMatch?: string;
+}
+
+export interface StorageDownload {
+  /** Response body as a web stream; null when not modified */
+  body: ReadableStream<Uint8Array> | null;
+  /** The same body as a Node stream; read either this or `body` */
+  readonly stream: Readable | null;
+  status: number;
+  /** The file matched `ifNoneMatch`, so no body was sent */
+  notModified: boolean;
+  etag: string | null;
+  contentType: string | null;
+  contentLength: number | null;
+  /** Bytes returned for a range request; null when the whole file was sent */
+  range: { start: number; end: number; size: number | null } | null;
+}
+
+export interface DownloadToFileOptions extends DownloadOptions {
+  onProgress?: (progress: { bytesReceived: number; totalBytes: number | null }) => void;
+}
+
+export interface SignedUrlOptions extends SignalOptions {
+  /** Seconds until the URL expires (default 3600) */
+  expiresIn?: number;
+  /** Serve the file as an attachment; a string sets the download filename */
+  download?: boolean | string;
+}
+
+export interface SignedUrl {
+  path: string;
+  signedUrl: string;
+  token: string;
+  expiresAt: string;
+}
+
+export interface SignedUploadUrlOptions extends SignalOptions {
+  /** Seconds until the URL expires (default 7200) */
+  expiresIn?: number;
+  /** Allow the upload to replace an existing file */
+  upsert?: boolean;
 }
 
+export interface SyncOptions extends SignalOptions {
+  /** `upload` makes the bucket match the directory, `download` the reverse (default `upload`) */
+  direction?: 'upload' | 'download';
+  /** Globs of relative paths to sync, e.g. `assets/**` or `*.html` (default all files) */
+  include?: string[];
+  /** Globs of relative paths to leave alone, e.g. `.git/**` */
+  exclude?: string[];
+  /** Delete destination files that no longer exist at the source (default false) */
+  deleteOrphans?: boolean;
+  /** Compare content hashes where the bucket reports one, not just sizes (default true) */
+  compareHashes?: boolean;
+  /** Report what would change without changing anything */
+  dryRun?: boolean;
+  /** Files transferred at the same time (default 4) */
+  concurrency?: number;
+}
+
+export interface SyncReport {
+  direction: 'upload' | 'download';
+  dryRun: boolean;
+  /** Relative paths copied to the destination */
+  transferred: string[];
+  /** Relative paths deleted from the destination */
+  deleted: string[];
+  /** Relative paths already up to date */
+  unchanged: string[];
+  failed: Array<{ path: string; error: ApiError['error'] }>;
+  /** Bytes transferred */
+  bytes: number;
+}
+
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+
 export class StorageClient {
   constructor(private client: HttpClient) {}
 
+  private get basePath(): string {
+    return `/api/project/${this.client.getProjectSlug()}/storage`;
+  }
+
+  private bucketPath(name: string): string {
+    return `${this.basePath}/${encodeURIComponent(name)}`;
+  }
+
   /**
    * Get a bucket client for performing operations
    */
   from(bucket: string): StorageBucket {
     return new StorageBucket(this.client, bucket);
   }
+
+  /**
+   * Create a SignedUrlVerifier that loads `jwksUrl` with the client's configured fetch
+   */
+  signedUrlVerifier(options: JwtVerifyOptions): SignedUrlVerifier {
+    return new SignedUrlVerifier({ ...options, fetch: this.client.getFetch() });
+  }
+
+  /**
+   * List all buckets in the project
+   */
+  async listBuckets({ signal }: SignalOptions = {}): Promise<ApiResult<StorageBucketInfo[]>> {
+    return this.client.request<StorageBucketInfo[]>(this.basePath, { signal });
+  }
+
+  /**
+   * Get a bucket's settings
+   */
+  async getBucket(name: string, { signal }: SignalOptions = {}): Promise<ApiResult<StorageBucketInfo>> {
+    return this.client.request<StorageBucketInfo>(`${this.bucketPath(name)}/settings`, { signal });
+  }
+
+  /**
+   * Create a bucket if it doesn't exist; same as `from(name).createBucket(options)`
+   *
+   * @example
+   * await client.storage.createBucket('avatars', { public: true, fileSizeLimit: 5 * 1024 * 1024, allowedMimeTypes: ['image/*'] });
+   */
+  async createBucket(
+    name: string,
+    options: BucketOptions & SignalOptions = {}
+  ): Promise<ApiResult<{ bucket: string; created: boolean }>> {
+    return this.from(name).createBucket(options);
+  }
+
+  /**
+   * Change a bucket's visibility or upload limits
+   * Pass null to remove a limit.
+   */
+  async updateBucket(
+    name: string,
+    { signal, ...options }: BucketOptions & SignalOptions
+  ): Promise<ApiResult<StorageBucketInfo>> {
+    return this.client.request<StorageBucketInfo>(`${this.bucketPath(name)}/settings`, {
+      method: 'PATCH',
+      body: options,
+      signal,
+    });
+  }
+
+  /**
+   * Delete every file in a bucket, keeping the bucket
+   */
+  async emptyBucket(name: string, { signal }: SignalOptions = {}): Promise<ApiResult<{ deleted: number }>> {
+    return this.client.request<{ deleted: number }>(`${this.bucketPath(name)}/empty`, {
+      method: 'POST',
+      signal,
+    });
+  }
+
+  /**
+   * Delete a bucket
+   * The bucket must be empty unless `force` is set, which empties it first.
+   */
+  async deleteBucket(
+    name: string,
+    { signal, force }: SignalOptions & { force?: boolean } = {}
+  ): Promise<ApiResult<{ success: boolean }>> {
+    if (force) {
+      const emptied = await this.emptyBucket(name, { signal });
+      if (emptied.error) {
+        return emptied;
+      }
+    }
+
+    return this.client.request<{ success: boolean }>(`${this.bucketPath(name)}/delete`, {
+      method: 'POST',
+      signal,
+    });
+  }
 }
 
 export class StorageBucket {
@@ -42,17 +298,29 @@ export class StorageBucket {
   ) {}
 
   private get basePath(): string {
-    return `/api/project/${this.client.getProjectSlug()}/storage/${this.bucket}`;
+    return `/api/project/${this.client.getProjectSlug()}/storage/${encodeURIComponent(this.bucket)}`;
+  }
+
+  /**
+   * Send a request that carries the user's token when session requests are enabled
+   */
+  private request<T>(path: string, options: RequestOptions = {}): Promise<ApiResult<T>> {
+    return this.client.request<T>(path, { auth: 'auto', ...options });
   }
 
   /**
    * Upload a file to the bucket
+   * Streams are sent as a multipart upload; use uploadMultipart() to tune it.
    */
   async upload(
     path: string,
-    file: Blob | Buffer | ArrayBuffer,
+    file: Blob | Buffer | ArrayBuffer | Readable | ReadableStream<Uint8Array>,
     options?: UploadOptions
   ): Promise<ApiResult<StorageFile>> {
+    if (isStreamSource(file)) {
+      return this.uploadMultipart(path, file, options);
+    }
+
     const formData = new FormData();
 
     // Convert to Blob if needed
@@ -73,107 +341,339 @@ export class StorageBucket {
       formData.append('upsert', 'true');
     }
 
-    const baseUrl = (this.client as any).baseUrl || 'https://api.orbitnest.io';
-    const url = `${baseUrl}${this.basePath}/upload`;
+    const result = await this.request<{ data: StorageFile }>(`${this.basePath}/upload`, {
+      method: 'POST',
+      body: formData,
+      signal: options?.signal,
+    });
+
+    if (result.error) {
+      return result as ApiResult<StorageFile>;
+    }
+
+    if (!result.data?.data) {
+      return {
+        data: null,
+        error: { message: 'Upload failed: invalid response from server', code: 'INVALID_RESPONSE' },
+      };
+    }
 
-    console.log('[StorageBucket] Upload request:', { url, path, bucketName: this.bucket });
+    return { data: result.data.data, error: null };
+  }
+
+  /**
+   * Stream a local file to the bucket as a multipart upload
+   */
+  async uploadFile(path: string, filePath: string, options?: MultipartUploadOptions): Promise<ApiResult<StorageFile>> {
+    return this.uploadMultipart(path, { filePath }, options);
+  }
 
+  /**
+   * Upload in parts, reading the source incrementally
+   * Failed parts are retried; if the upload still fails, the error details carry the `uploadId`,
+   * which can be passed back in the options to upload only the missing parts. Call
+   * `abortMultipartUpload` to discard it instead, or set `keepOnFailure: false`, which discards it
+   * and leaves the id out of the error.
+   *
+   * @example
+   * const { data, error } = await bucket.uploadMultipart('backups/db.tar', { filePath: '/tmp/db.tar' }, {
+   *   partSize: 16 * 1024 * 1024,
+   *   onProgress: ({ bytesSent, totalBytes }) => console.log(bytesSent, totalBytes),
+   * });
+   */
+  async uploadMultipart(
+    path: string,
+    source: UploadSource,
+    options: MultipartUploadOptions = {}
+  ): Promise<ApiResult<StorageFile>> {
+    const { signal, onProgress } = options;
+    const partSize = Math.max(1, Math.floor(options.partSize ?? DEFAULT_PART_SIZE));
+    let totalBytes: number | undefined;
     try {
-      const response = await fetch(url, {
+      totalBytes = await sourceSize(source);
+    } catch (err) {
+      return { data: null, error: { message: `Failed to read upload source: ${errorMessage(err)}`, code: 'IO_ERROR' } };
+    }
+
+    let uploadId = options.uploadId;
+    const completed = new Map<number, { size: number; etag: string }>();
+
+    if (uploadId) {
+      const existing = await this.getMultipartUpload(uploadId, { signal });
+      if (existing.error) {
+        return existing;
+      }
+      for (const part of existing.data.parts) {
+        completed.set(part.partNumber, { size: part.size, etag: part.etag });
+      }
+    } else {
+      const created = await this.request<{ uploadId: string }>(`${this.basePath}/uploads`, {
         method: 'POST',
-        headers: {
-          Authorization: `Bearer ${(this.client as any).apiKey}`,
+        body: {
+          path,
+          size: totalBytes,
+          partSize,
+          contentType: options.contentType,
+          cacheControl: options.cacheControl,
+          upsert: options.upsert,
         },
-        body: formData,
+        signal,
       });
+      if (created.error) {
+        return created;
+      }
+      uploadId = created.data.uploadId;
+      options.onUploadId?.(uploadId);
+    }
+
+    const id = uploadId;
+    const parts = readParts(source, partSize);
+    let bytesSent = 0;
+    let failure: ApiError | null = null;
+
+    // Stops in-flight parts once one fails, and follows the caller's signal
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (signal?.aborted) {
+      controller.abort();
+    }
+
+    const fail = (error: ApiError) => {
+      failure = failure ?? error;
+      controller.abort();
+    };
 
-      let data: any;
+    const upload = async () => {
+      // Async generators queue concurrent next() calls, so each part is read once
+      for (let next = await parts.next(); !next.done && !failure; next = await parts.next()) {
+        const { partNumber, data } = next.value;
+        const done = completed.get(partNumber);
+
+        if (!done || done.size !== data.byteLength) {
+          const result = await this.request<{ etag: string }>(
+            `${this.basePath}/uploads/${encodeURIComponent(id)}/parts/${partNumber}`,
+            {
+              method: 'PUT',
+              body: data,
+              headers: { 'Content-Type': 'application/octet-stream' },
+              retry: { maxAttempts: options.partAttempts ?? 3, methods: ['PUT'] },
+              signal: controller.signal,
+            }
+          );
+          if (result.error) {
+            fail(withUploadId(result.error, id, { partNumber }));
+            return;
+          }
+          completed.set(partNumber, { size: data.byteLength, etag: result.data.etag });
+        }
+
+        bytesSent += data.byteLength;
+        onProgress?.({ bytesSent, totalBytes, partNumber });
+      }
+    };
+
+    const worker = async () => {
       try {
-        data = await response.json();
-      } catch (jsonErr) {
-        const responseText = await response.text();
-        console.error('[StorageBucket] Failed to parse response as JSON:', {
-          status: response.status,
-          statusText: response.statusText,
-          responsePreview: responseText.substring(0, 200),
-        });
-        return {
+        await upload();
+      } catch (err) {
+        // Reading the source failed
+        fail({
           data: null,
-          error: {
-            message: `Upload failed: ${response.status} ${response.statusText}`,
-            status: response.status,
-            code: 'INVALID_RESPONSE',
-          },
-        };
+          error: { message: `Failed to read upload source: ${errorMessage(err)}`, code: 'IO_ERROR', details: { uploadId: id } },
+        });
       }
+    };
 
-      if (!response.ok) {
-        return {
-          data: null,
-          error: {
-            message: data?.message || 'Upload failed',
-            status: response.status,
-          },
-        };
+    try {
+      await Promise.all(Array.from({ length: Math.max(1, options.concurrency ?? 4) }, worker));
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      await parts.return().catch(() => undefined);
+    }
+
+    if (failure) {
+      if (options.keepOnFailure ?? true) {
+        return failure;
       }
+      // Best effort: the caller's signal may already be aborted, so don't pass it
+      await this.abortMultipartUpload(id);
+      return withoutUploadId(failure);
+    }
 
-      return { data: data.data, error: null };
-    } catch (err) {
-      console.error('[StorageBucket] Upload error:', err);
+    const result = await this.request<{ data: StorageFile }>(`${this.basePath}/uploads/${encodeURIComponent(id)}/complete`, {
+      method: 'POST',
+      body: {
+        parts: [...completed.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([partNumber, part]) => ({ partNumber, etag: part.etag })),
+      },
+      signal,
+    });
+
+    if (result.error) {
+      return withUploadId(result.error, id);
+    }
+    if (!result.data?.data) {
       return {
         data: null,
-        error: {
-          message: err instanceof Error ? err.message : 'Upload failed',
-          code: 'UPLOAD_ERROR',
-        },
+        error: { message: 'Upload failed: invalid response from server', code: 'INVALID_RESPONSE', details: { uploadId: id } },
       };
     }
+
+    return { data: result.data.data, error: null };
+  }
+
+  /**
+   * Get an unfinished multipart upload and the parts received so far
+   */
+  async getMultipartUpload(uploadId: string, { signal }: SignalOptions = {}): Promise<ApiResult<MultipartUpload>> {
+    return this.request<MultipartUpload>(`${this.basePath}/uploads/${encodeURIComponent(uploadId)}`, { signal });
+  }
+
+  /**
+   * Discard an unfinished multipart upload and its parts
+   */
+  async abortMultipartUpload(uploadId: string, { signal }: SignalOptions = {}): Promise<ApiResult<{ success: boolean }>> {
+    return this.request<{ success: boolean }>(`${this.basePath}/uploads/${encodeURIComponent(uploadId)}`, {
+      method: 'DELETE',
+      signal,
+    });
   }
 
   /**
    * Download a file from the bucket
+   * Pass `range` to read part of it.
    */
-  async download(path: string): Promise<ApiResult<Blob>> {
-    const baseUrl = (this.client as any).baseUrl || 'https://api.orbitnest.io';
-    const url = `${baseUrl}${this.basePath}/${path}`;
+  async download(
+    path: string,
+    { signal, range }: Omit<DownloadOptions, 'ifNoneMatch'> = {}
+  ): Promise<ApiResult<Blob>> {
+    return this.request<Blob>(`${this.basePath}/${encodeObjectPath(path)}`, {
+      responseType: 'blob',
+      headers: range ? { Range: rangeHeader(range) } : undefined,
+      signal,
+    });
+  }
 
-    try {
-      const response = await fetch(url, {
-        headers: {
-          Authorization: `Bearer ${(this.client as any).apiKey}`,
+  /**
+   * Download a file as a stream without buffering it
+   *
+   * @example
+   * const { data } = await bucket.downloadStream('videos/a.mp4', { range: { start: 0, end: 1023 } });
+   * data.stream?.pipe(res);
+   */
+  async downloadStream(path: string, options: DownloadOptions = {}): Promise<ApiResult<StorageDownload>> {
+    const headers: Record<string, string> = {};
+    if (options.range) headers['Range'] = rangeHeader(options.range);
+    if (options.ifNoneMatch) headers['If-None-Match'] = options.ifNoneMatch;
+
+    const result = await this.request<Response>(`${this.basePath}/${encodeObjectPath(path)}`, {
+      responseType: 'response',
+      headers,
+      signal: options.signal,
+    });
+    if (result.error) {
+      return result;
+    }
+
+    const response = result.data;
+    const notModified = response.status === 304;
+    const body = notModified ? null : response.body;
+    const length = response.headers.get('content-length');
+    let stream: Readable | null | undefined;
+
+    return {
+      data: {
+        body,
+        get stream() {
+          if (stream === undefined) {
+            stream = body && Readable.fromWeb(body as NodeReadableStream<Uint8Array>);
+          }
+          return stream;
         },
-      });
+        status: response.status,
+        notModified,
+        etag: response.headers.get('etag'),
+        contentType: response.headers.get('content-type'),
+        contentLength: length === null ? null : Number(length),
+        range: response.status === 206 ? parseContentRange(response.headers.get('content-range')) : null,
+      },
+      error: null,
+    };
+  }
 
-      if (!response.ok) {
-        return {
-          data: null,
-          error: {
-            message: 'Download failed',
-            status: response.status,
-          },
-        };
+  /**
+   * Download a file to disk
+   * The file is written to a temporary name and renamed into place, so `destination` never holds a partial file.
+   */
+  async downloadToFile(
+    path: string,
+    destination: string,
+    options: DownloadToFileOptions = {}
+  ): Promise<ApiResult<{ path: string; bytes: number; etag: string | null; notModified: boolean }>> {
+    const result = await this.downloadStream(path, options);
+    if (result.error) {
+      return result;
+    }
+
+    const { stream, etag, notModified, contentLength } = result.data;
+    if (!stream) {
+      return { data: { path: destination, bytes: 0, etag, notModified }, error: null };
+    }
+
+    const tempPath = `${destination}.${randomBytes(6).toString('hex')}.tmp`;
+    let bytes = 0;
+    const count = async function* (source: AsyncIterable<Uint8Array>) {
+      for await (const chunk of source) {
+        bytes += chunk.byteLength;
+        options.onProgress?.({ bytesReceived: bytes, totalBytes: contentLength });
+        yield chunk;
       }
+    };
 
-      const blob = await response.blob();
-      return { data: blob, error: null };
+    // Only failures of the file side are IO errors; errno codes like ECONNRESET also come from the connection
+    let fileFailed = true;
+    try {
+      await mkdir(dirname(destination), { recursive: true });
+      const file = createWriteStream(tempPath);
+      fileFailed = false;
+      file.once('error', () => {
+        fileFailed = true;
+      });
+      await pipeline(stream, count, file, { signal: options.signal });
+      fileFailed = true;
+      await rename(tempPath, destination);
     } catch (err) {
+      stream.destroy();
+      await unlink(tempPath).catch(() => undefined);
+
+      if (options.signal?.aborted) {
+        return { data: null, error: { message: 'Request aborted', code: 'ABORTED' } };
+      }
       return {
         data: null,
         error: {
-          message: err instanceof Error ? err.message : 'Download failed',
-          code: 'DOWNLOAD_ERROR',
+          message: `Download to ${destination} failed: ${errorMessage(err)}`,
+          code: fileFailed ? 'IO_ERROR' : 'NETWORK_ERROR',
         },
       };
     }
+
+    return { data: { path: destination, bytes, etag, notModified: false }, error: null };
   }
 
   /**
    * Delete files from the bucket
    */
-  async remove(paths: string[]): Promise<ApiResult<{ deleted: string[]; errors: string[] }>> {
-    return this.client.request<{ deleted: string[]; errors: string[] }>(this.basePath, {
+  async remove(
+    paths: string[],
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<{ deleted: string[]; errors: string[] }>> {
+    return this.request<{ deleted: string[]; errors: string[] }>(this.basePath, {
       method: 'DELETE',
       body: { paths },
+      signal,
     });
   }
 
@@ -182,37 +682,358 @@ export class StorageBucket {
    */
   async list(
     prefix?: string,
-    options?: { limit?: number }
+    options?: { limit?: number; offset?: number; signal?: AbortSignal }
   ): Promise<ApiResult<StorageListItem[]>> {
     const params = new URLSearchParams();
     if (prefix) params.set('prefix', prefix);
     if (options?.limit) params.set('limit', options.limit.toString());
+    if (options?.offset) params.set('offset', options.offset.toString());
 
     const query = params.toString() ? `?${params.toString()}` : '';
-    return this.client.request<StorageListItem[]>(`${this.basePath}${query}`);
+    return this.request<StorageListItem[]>(`${this.basePath}${query}`, { signal: options?.signal });
+  }
+
+  /**
+   * Iterate over every file under a prefix, one page at a time
+   * Stops when a page repeats the previous one, in case the server ignores `offset`.
+   */
+  listAll(prefix?: string, options: IterateOptions = {}): AsyncGenerator<StorageListItem, void, undefined> {
+    return paginate<StorageListItem>(
+      async ({ offset, limit }, signal) => {
+        const result = await this.list(prefix, { offset, limit, signal });
+        return result.error ? result : { data: { items: result.data }, error: null };
+      },
+      options,
+      item => item.name
+    );
+  }
+
+  /**
+   * Rename a file within the bucket
+   */
+  async move(from: string, to: string, { upsert, signal }: MoveOptions = {}): Promise<ApiResult<StorageFile>> {
+    return this.fileRequest(`${this.basePath}/move`, { method: 'POST', body: { from, to, upsert }, signal }, 'Move');
+  }
+
+  /**
+   * Copy a file within the bucket
+   */
+  async copy(from: string, to: string, { upsert, signal }: MoveOptions = {}): Promise<ApiResult<StorageFile>> {
+    return this.fileRequest(`${this.basePath}/copy`, { method: 'POST', body: { from, to, upsert }, signal }, 'Copy');
+  }
+
+  /**
+   * Get a file's metadata without downloading it
+   */
+  async head(path: string, { signal }: SignalOptions = {}): Promise<ApiResult<StorageFile>> {
+    const query = new URLSearchParams({ path });
+    return this.fileRequest(`${this.basePath}/metadata?${query}`, { signal }, 'Metadata request');
+  }
+
+  /**
+   * Change a file's content type or cache control
+   */
+  async updateMetadata(
+    path: string,
+    metadata: FileMetadataUpdate,
+    { signal }: SignalOptions = {}
+  ): Promise<ApiResult<StorageFile>> {
+    return this.fileRequest(
+      `${this.basePath}/metadata`,
+      { method: 'PATCH', body: { path, ...metadata }, signal },
+      'Metadata update'
+    );
+  }
+
+  /**
+   * Send a request that responds with `{ data: StorageFile }`
+   */
+  private async fileRequest(path: string, options: RequestOptions, action: string): Promise<ApiResult<StorageFile>> {
+    const result = await this.request<{ data: StorageFile }>(path, options);
+    if (result.error) {
+      return result;
+    }
+    if (!result.data?.data) {
+      return {
+        data: null,
+        error: { message: `${action} failed: invalid response from server`, code: 'INVALID_RESPONSE' },
+      };
+    }
+    return { data: result.data.data, error: null };
+  }
+
+  /**
+   * Make a bucket prefix match a local directory, or the reverse
+   * Only new and changed files are transferred. Per-file failures are collected in the report;
+   * the result is an error only when a side can't be listed. When downloading, object names that
+   * would resolve outside `localDir` are skipped and reported as failed.
+   *
+   * @example
+   * const { data } = await bucket.sync('./dist', 'site/', { exclude: ['*.map'], deleteOrphans: true });
+   * console.log(data.transferred, data.deleted, data.failed);
+   */
+  async sync(localDir: string, remotePrefix = '', options: SyncOptions = {}): Promise<ApiResult<SyncReport>> {
+    const { direction = 'upload', dryRun = false, compareHashes = true, signal } = options;
+    const prefix = remotePrefix && !remotePrefix.endsWith('/') ? `${remotePrefix}/` : remotePrefix;
+    const selected = pathFilter(options.include, options.exclude);
+
+    let local: Map<string, LocalFile>;
+    try {
+      if (direction === 'upload' && !(await stat(localDir)).isDirectory()) {
+        return { data: null, error: { message: `${localDir} is not a directory`, code: 'IO_ERROR' } };
+      }
+      local = await walkDirectory(localDir);
+    } catch (err) {
+      return { data: null, error: { message: `Cannot read ${localDir}: ${errorMessage(err)}`, code: 'IO_ERROR' } };
+    }
+
+    const report: SyncReport = { direction, dryRun, transferred: [], deleted: [], unchanged: [], failed: [], bytes: 0 };
+    const root = resolve(localDir);
+    // Object names come from the server; one with `..` segments must not write outside localDir
+    const localPath = (path: string): string | null => {
+      const filePath = resolve(root, ...path.split('/'));
+      return filePath.startsWith(root + sep) ? filePath : null;
+    };
+
+    const remote = new Map<string, StorageListItem>();
+    try {
+      // Listings report no total, so a short page ends them: keep the default page size the endpoint honors
+      for await (const item of this.listAll(prefix || undefined, { signal })) {
+        const name = item.name.startsWith(prefix) ? item.name.slice(prefix.length) : item.name;
+        if (!name || name.endsWith('/')) {
+          continue;
+        }
+        if (direction === 'download' && !localPath(name)) {
+          report.failed.push({ path: name, error: { message: `${name} resolves outside ${localDir}`, code: 'VALIDATION_ERROR' } });
+          continue;
+        }
+        remote.set(name, item);
+      }
+    } catch (err) {
+      if (err instanceof OrbitNestError) {
+        return { data: null, error: { message: err.message, code: err.code, status: err.status, details: err.details } };
+      }
+      throw err;
+    }
+    const source = direction === 'upload' ? local : remote;
+    const target = direction === 'upload' ? remote : local;
+
+    const isCurrent = async (path: string): Promise<boolean> => {
+      const localFile = local.get(path);
+      const remoteFile = remote.get(path);
+      if (!localFile || !remoteFile || localFile.size !== remoteFile.size) {
+        return false;
+      }
+      const md5 = compareHashes ? etagMd5(remoteFile.etag) : null;
+      return !md5 || (await fileMd5(localFile.filePath)) === md5;
+    };
+
+    const transfer = async (path: string): Promise<ApiResult<unknown>> => {
+      const file = local.get(path);
+      if (direction === 'download') {
+        return this.downloadToFile(`${prefix}${path}`, localPath(path)!, { signal });
+      }
+      if (file!.size > DEFAULT_PART_SIZE) {
+        return this.uploadFile(`${prefix}${path}`, file!.filePath, { upsert: true, signal });
+      }
+      return this.upload(`${prefix}${path}`, await readFile(file!.filePath), { upsert: true, signal });
+    };
+
+    const paths = [...source.keys()].filter(selected).sort();
+    let next = 0;
+    const worker = async () => {
+      while (next < paths.length && !signal?.aborted) {
+        const path = paths[next++];
+        try {
+          if (await isCurrent(path)) {
+            report.unchanged.push(path);
+            continue;
+          }
+          const result = dryRun ? { error: null } : await transfer(path);
+          if (result.error) {
+            report.failed.push({ path, error: result.error });
+          } else {
+            report.transferred.push(path);
+            report.bytes += source.get(path)!.size;
+          }
+        } catch (err) {
+          report.failed.push({ path, error: { message: `${path}: ${errorMessage(err)}`, code: 'IO_ERROR' } });
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency ?? 4, paths.length)) }, worker));
+
+    if (signal?.aborted) {
+      return { data: null, error: { message: 'Request aborted', code: 'ABORTED', details: report } };
+    }
+
+    const orphans = options.deleteOrphans ? [...target.keys()].filter(path => !source.has(path) && selected(path)).sort() : [];
+    if (dryRun || !orphans.length) {
+      report.deleted.push(...orphans);
+    } else if (direction === 'upload') {
+      const removed = await this.remove(orphans.map(path => `${prefix}${path}`), { signal });
+      if (removed.error) {
+        report.failed.push(...orphans.map(path => ({ path, error: removed.error })));
+      } else {
+        const deleted = new Set(removed.data.deleted);
+        for (const path of orphans) {
+          if (deleted.has(`${prefix}${path}`)) {
+            report.deleted.push(path);
+          } else {
+            report.failed.push({ path, error: { message: `Failed to delete ${prefix}${path}`, code: 'SERVER_ERROR' } });
+          }
+        }
+      }
+    } else {
+      for (const path of orphans) {
+        try {
+          await unlink(local.get(path)!.filePath);
+          report.deleted.push(path);
+        } catch (err) {
+          report.failed.push({ path, error: { message: `Cannot delete ${path}: ${errorMessage(err)}`, code: 'IO_ERROR' } });
+        }
+      }
+    }
+
+    return { data: report, error: null };
   }
 
   /**
    * Get public URL for a file
    */
   getPublicUrl(path: string): { data: { publicUrl: string } } {
-    const baseUrl = (this.client as any).baseUrl || 'https://api.orbitnest.io';
-    const projectSlug = this.client.getProjectSlug();
     // Use public endpoint that doesn't require authentication
-    const publicUrl = `${baseUrl}/api/public/${projectSlug}/storage/${this.bucket}/${path}`;
+    const publicUrl = storageObjectUrl(this.client.getBaseUrl(), this.client.getProjectSlug(), this.bucket, path);
 
     return {
       data: { publicUrl },
     };
   }
 
+  /**
+   * Create a URL that grants temporary read access to a private file
+   *
+   * @example
+   * const { data } = await bucket.createSignedUrl('invoices/42.pdf', { expiresIn: 600, download: true });
+   */
+  async createSignedUrl(path: string, options: SignedUrlOptions = {}): Promise<ApiResult<SignedUrl>> {
+    const result = await this.request<{ token: string; expiresAt: string }>(`${this.basePath}/signed-url`, {
+      method: 'POST',
+      body: { path, expiresIn: options.expiresIn ?? 3600 },
+      signal: options.signal,
+    });
+    if (result.error) {
+      return result;
+    }
+
+    return {
+      data: { path, ...result.data, signedUrl: this.signedUrl(path, result.data.token, options.download) },
+      error: null,
+    };
+  }
+
+  /**
+   * Create signed URLs for several files in one request
+   * A file that can't be signed gets `error` instead of a URL.
+   */
+  async createSignedUrls(
+    paths: string[],
+    options: SignedUrlOptions = {}
+  ): Promise<ApiResult<Array<{ path: string; signedUrl: string | null; expiresAt: string | null; error: string | null }>>> {
+    const result = await this.request<Array<{ path: string; token?: string; expiresAt?: string; error?: string }>>(
+      `${this.basePath}/signed-urls`,
+      {
+        method: 'POST',
+        body: { paths, expiresIn: options.expiresIn ?? 3600 },
+        signal: options.signal,
+      }
+    );
+    if (result.error) {
+      return result;
+    }
+
+    return {
+      data: result.data.map(item => ({
+        path: item.path,
+        signedUrl: item.token ? this.signedUrl(item.path, item.token, options.download) : null,
+        expiresAt: item.expiresAt ?? null,
+        error: item.token ? null : item.error || 'Failed to sign URL',
+      })),
+      error: null,
+    };
+  }
+
+  /**
+   * Create a URL that lets anyone holding it upload one file with a PUT request
+   */
+  async createSignedUploadUrl(path: string, options: SignedUploadUrlOptions = {}): Promise<ApiResult<SignedUrl>> {
+    const result = await this.request<{ token: string; expiresAt: string }>(`${this.basePath}/signed-upload-url`, {
+      method: 'POST',
+      body: { path, expiresIn: options.expiresIn ?? 7200, upsert: options.upsert },
+      signal: options.signal,
+    });
+    if (result.error) {
+      return result;
+    }
+
+    return { data: { path, ...result.data, signedUrl: this.signedUrl(path, result.data.token) }, error: null };
+  }
+
+  private signedUrl(path: string, token: string, download?: boolean | string): string {
+    return storageObjectUrl(this.client.getBaseUrl(), this.client.getProjectSlug(), this.bucket, path, {
+      token,
+      download: download === true ? '' : download || undefined,
+    });
+  }
+
   /**
    * Create the bucket (if it doesn't exist)
+   * The options only apply when the bucket is created; use `storage.updateBucket` to change an existing one.
    */
-  async createBucket(): Promise<ApiResult<{ bucket: string; created: boolean }>> {
-    return this.client.request<{ bucket: string; created: boolean }>(
+  async createBucket({
+    signal,
+    ...options
+  }: BucketOptions & SignalOptions = {}): Promise<ApiResult<{ bucket: string; created: boolean }>> {
+    return this.request<{ bucket: string; created: boolean }>(
       `${this.basePath}/create`,
-      { method: 'POST' }
+      { method: 'POST', body: Object.keys(options).length ? options : undefined, signal }
     );
   }
 }
+
+function rangeHeader({ start, end }: ByteRange): string {
+  return `bytes=${start}-${end ?? ''}`;
+}
+
+function parseContentRange(header: string | null): StorageDownload['range'] {
+  const match = header && /^bytes (\d+)-(\d+)\/(\d+|\*)$/.exec(header.trim());
+  if (!match) {
+    return null;
+  }
+  return { start: Number(match[1]), end: Number(match[2]), size: match[3] === '*' ? null : Number(match[3]) };
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Add the upload id to an error so the caller can resume
+ */
+/**
+ * Drop the upload id from an error once the upload was discarded, so it isn't passed back to resume
+ */
+function withoutUploadId({ error }: ApiError): ApiError {
+  const { uploadId: _discarded, ...details } = error.details as Record<string, unknown>;
+  return { data: null, error: { ...error, details } };
+}
+
+function withUploadId(error: ApiError['error'], uploadId: string, extra: Record<string, unknown> = {}): ApiError {
+  const details =
+    typeof error.details === 'object' && error.details !== null && !Array.isArray(error.details)
+      ? error.details
+      : error.details === undefined
+        ? {}
+        : { response: error.details };
+  return { data: null, error: { ...error, details: { ...details, ...extra, uploadId } } };
+}
@@ -0,0 +1,90 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { readdir, stat } from 'fs/promises';
+import { join, relative, sep } from 'path';
+
+export interface LocalFile {
+  /** Absolute path on disk */
+  filePath: string;
+  size: number;
+}
+
+/**
+ * Build a filter from include/exclude globs matched against `/`-separated relative paths
+ * `*` and `?` stay within one directory, `**` spans directories, and a pattern without `/` matches at any depth.
+ */
+export function pathFilter(include?: string[], exclude?: string[]): (path: string) => boolean {
+  const included = include?.length ? include.map(globToRegExp) : null;
+  const excluded = (exclude || []).map(globToRegExp);
+  return path => (!included || included.some(re => re.test(path))) && !excluded.some(re => re.test(path));
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${glob.includes('/') ? '' : '(?:.*/)?'}${source.replace(/^\//, '')}$`);
+}
+
+/**
+ * Regular files under `dir`, keyed by `/`-separated path relative to it
+ * Symbolic links are not followed. A missing directory yields no files.
+ */
+export async function walkDirectory(dir: string): Promise<Map<string, LocalFile>> {
+  const files = new Map<string, LocalFile>();
+
+  const visit = async (current: string) => {
+    let entries;
+    try {
+      entries = await readdir(current, { withFileTypes: true });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT' && current === dir) {
+        return;
+      }
+      throw err;
+    }
+
+    for (const entry of entries) {
+      const filePath = join(current, entry.name);
+      if (entry.isDirectory()) {
+        await visit(filePath);
+      } else if (entry.isFile()) {
+        files.set(relative(dir, filePath).split(sep).join('/'), { filePath, size: (await stat(filePath)).size });
+      }
+    }
+  };
+
+  await visit(dir);
+  return files;
+}
+
+/**
+ * Hex MD5 of a file's content, read as a stream
+ */
+export async function fileMd5(filePath: string): Promise<string> {
+  const hash = createHash('md5');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * The MD5 carried by an ETag, or null when the ETag is not a plain content hash (e.g. multipart uploads)
+ */
+export function etagMd5(etag: string | undefined): string | null {
+  const match = etag && /^"?([0-9a-f]{32})"?$/i.exec(etag);
+  return match ? match[1].toLowerCase() : null;
+}
@@ -0,0 +1,148 @@
+import type { ThrottleOptions } from '../types';
+
+/**
+ * Client-side request limiter combining a token bucket with a concurrency cap
+ * Requests are admitted in the order they call acquire().
+ */
+export class RequestThrottle {
+  private tokens: number;
+  private capacity: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private slotWaiters: Array<() => void> = [];
+  private queue: Promise<unknown> = Promise.resolve();
+  private pausedUntil = 0;
+
+  constructor(private options: ThrottleOptions) {
+    if (options.requestsPerSecond !== undefined && !(options.requestsPerSecond >= 0)) {
+      throw new Error('OrbitNest: throttle.requestsPerSecond must not be negative');
+    }
+    // A bucket that holds less than one token never admits a request
+    if (options.burst !== undefined && !(options.burst >= 1)) {
+      throw new Error('OrbitNest: throttle.burst must be at least 1');
+    }
+    this.capacity = options.burst ?? options.requestsPerSecond ?? Infinity;
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Wait for permission to send a request
+   * Returns a release function that must be called when the request settles.
+   * Rejects with an AbortError when `signal` aborts first.
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    const turn = this.queue.then(() => this.take(signal));
+    this.queue = turn.catch(() => undefined);
+    if (!signal) {
+      return turn;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(abortError());
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+
+      turn.then(
+        release => {
+          signal.removeEventListener('abort', onAbort);
+          // The caller stopped waiting; hand the slot straight back
+          if (signal.aborted) {
+            release();
+          } else {
+            resolve(release);
+          }
+        },
+        err => {
+          signal.removeEventListener('abort', onAbort);
+          reject(err);
+        }
+      );
+    });
+  }
+
+  /**
+   * Hold back new requests until the given time (ms since epoch)
+   */
+  pauseUntil(time: number): void {
+    if (this.options.respectServerLimit !== false) {
+      this.pausedUntil = Math.max(this.pausedUntil, time);
+    }
+  }
+
+  private async take(signal?: AbortSignal): Promise<() => void> {
+    const { maxConcurrency, requestsPerSecond } = this.options;
+    if (signal?.aborted) {
+      throw abortError();
+    }
+
+    while (maxConcurrency && this.active >= maxConcurrency) {
+      await this.waitForSlot(signal);
+    }
+
+    if (this.pausedUntil > Date.now()) {
+      await sleep(this.pausedUntil - Date.now(), signal);
+    }
+
+    if (requestsPerSecond) {
+      this.refill(requestsPerSecond);
+      while (this.tokens < 1) {
+        await sleep(((1 - this.tokens) / requestsPerSecond) * 1000, signal);
+        this.refill(requestsPerSecond);
+      }
+      this.tokens -= 1;
+    }
+
+    this.active++;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.slotWaiters.shift()?.();
+    };
+  }
+
+  private waitForSlot(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.slotWaiters = this.slotWaiters.filter(w => w !== waiter);
+        reject(abortError());
+      };
+      this.slotWaiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private refill(requestsPerSecond: number): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * requestsPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function abortError(): Error {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+}
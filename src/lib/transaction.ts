@@ -0,0 +1,86 @@
+import { formatQuery, SqlEscapeError } from './escape';
+import type { QueryParams } from './escape';
+import { sql, SqlFragment } from './sql';
+
+/**
+ * A SQL statement for db.batch() and transactions
+ */
+export type Statement = string | SqlFragment | { sql: string | SqlFragment; params?: QueryParams };
+
+// Explicit transaction control would end the implicit transaction the script runs in
+const TRANSACTION_CONTROL = /^(?:BEGIN|START\s+TRANSACTION|COMMIT|END|ROLLBACK|ABORT|SAVEPOINT|RELEASE|PREPARE\s+TRANSACTION)\b/i;
+
+/**
+ * Inline the parameters of a statement and drop its trailing semicolon
+ */
+export function compileStatement(statement: Statement): string {
+  const { text, params } =
+    typeof statement === 'string' || statement instanceof SqlFragment
+      ? { text: statement.toString(), params: undefined }
+      : { text: statement.sql.toString(), params: statement.params };
+
+  const compiled = (params !== undefined ? formatQuery(text, params) : text).trim().replace(/[;\s]+$/, '');
+  if (!compiled) {
+    throw new SqlEscapeError('Statement is empty', 'INVALID_QUERY');
+  }
+  return compiled;
+}
+
+/**
+ * Collects the statements of a db.transaction() call
+ * Statements are sent together when the callback returns, so their results are not available inside it.
+ */
+export class Transaction {
+  private statements: string[] = [];
+  private rollbackReason: string | null = null;
+
+  /**
+   * Add a statement and return its index in the transaction results
+   */
+  query(sql: string | SqlFragment, params?: QueryParams): number {
+    const statement = compileStatement({ sql, params });
+    if (TRANSACTION_CONTROL.test(statement.replace(/^(?:\s+|--[^\n]*\n?|\/\*[\s\S]*?\*\/)+/, ''))) {
+      throw new SqlEscapeError('Transaction control statements are managed by db.transaction()', 'INVALID_QUERY');
+    }
+    this.statements.push(statement);
+    return this.statements.length - 1;
+  }
+
+  /**
+   * Add a statement built with the `sql` tagged template and return its index
+   */
+  sql(strings: TemplateStringsArray, ...values: unknown[]): number {
+    return this.query(sql(strings, ...values));
+  }
+
+  /**
+   * Discard the collected statements; the transaction resolves to a TRANSACTION_ROLLED_BACK error
+   */
+  rollback(reason = 'Transaction rolled back'): void {
+    this.rollbackReason = reason;
+  }
+
+  /** @internal */
+  get rolledBack(): string | null {
+    return this.rollbackReason;
+  }
+
+  /** @internal */
+  get size(): number {
+    return this.statements.length;
+  }
+
+  /**
+   * One multi-statement query without BEGIN/COMMIT
+   * Postgres runs such a query as a single implicit transaction and rolls all of it back when a
+   * statement fails, leaving the connection clean. An explicit BEGIN would leave a pooled
+   * connection inside the aborted transaction instead.
+   * @internal
+   */
+  toScript(): string {
+    // A trailing line comment would swallow the semicolon
+    return this.statements
+      .map(statement => (/--[^\n]*$/.test(statement) ? `${statement}\n;` : `${statement};`))
+      .join('\n');
+  }
+}
@@ -0,0 +1,163 @@
+import type { DatabaseClient } from './database';
+import type { ApiResult, SignalOptions, TableMetadata } from '../types';
+
+export interface GenerateTypesOptions extends SignalOptions {
+  /** Only emit these tables (default: every table from listTables) */
+  tables?: string[];
+  /** Name of the exported schema type (default `Database`) */
+  typeName?: string;
+}
+
+const TYPE_MAP: Record<string, string> = {
+  int2: 'number',
+  int4: 'number',
+  smallint: 'number',
+  integer: 'number',
+  int: 'number',
+  serial: 'number',
+  smallserial: 'number',
+  float4: 'number',
+  float8: 'number',
+  real: 'number',
+  'double precision': 'number',
+  // 64-bit integers and arbitrary precision numbers are returned as strings to avoid precision loss
+  int8: 'string',
+  bigint: 'string',
+  bigserial: 'string',
+  numeric: 'string',
+  decimal: 'string',
+  money: 'string',
+  bool: 'boolean',
+  boolean: 'boolean',
+  json: 'Json',
+  jsonb: 'Json',
+  text: 'string',
+  varchar: 'string',
+  'character varying': 'string',
+  char: 'string',
+  character: 'string',
+  bpchar: 'string',
+  citext: 'string',
+  name: 'string',
+  uuid: 'string',
+  date: 'string',
+  time: 'string',
+  timetz: 'string',
+  timestamp: 'string',
+  timestamptz: 'string',
+  'time without time zone': 'string',
+  'time with time zone': 'string',
+  'timestamp without time zone': 'string',
+  'timestamp with time zone': 'string',
+  interval: 'string',
+  bytea: 'string',
+  inet: 'string',
+  cidr: 'string',
+  macaddr: 'string',
+  tsvector: 'string',
+  xml: 'string',
+};
+
+/**
+ * Map a Postgres column type to a TypeScript type
+ * Arrays (`integer[]` or `_int4`) map to arrays of the element type; unknown types map to `unknown`.
+ */
+export function pgTypeToTs(pgType: string): string {
+  const type = pgType.trim().toLowerCase();
+
+  if (type.endsWith('[]')) {
+    return `${wrapArrayElement(pgTypeToTs(type.slice(0, -2)))}[]`;
+  }
+  if (type.startsWith('_')) {
+    return `${wrapArrayElement(pgTypeToTs(type.slice(1)))}[]`;
+  }
+
+  // Drop length/precision modifiers such as varchar(255) or numeric(10,2)
+  const base = type.replace(/\(.*\)/, '').trim();
+  return TYPE_MAP[base] ?? 'unknown';
+}
+
+function wrapArrayElement(type: string): string {
+  return /^[\w.]+$/.test(type) ? type : `(${type})`;
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Render the schema type for the given tables
+ */
+export function renderTypes(tables: TableMetadata[], typeName = 'Database'): string {
+  const lines: string[] = [
+    '// Generated by orbitnest-typegen. Do not edit by hand.',
+    '',
+    'export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];',
+    '',
+    `export type ${typeName} = {`,
+    '  tables: {',
+  ];
+
+  for (const table of [...tables].sort((a, b) => a.name.localeCompare(b.name))) {
+    const columns = table.columns;
+    lines.push(`    ${propertyName(table.name)}: {`);
+
+    lines.push('      Row: {');
+    for (const col of columns) {
+      lines.push(`        ${propertyName(col.name)}: ${pgTypeToTs(col.type)}${col.nullable ? ' | null' : ''};`);
+    }
+    lines.push('      };');
+
+    lines.push('      Insert: {');
+    for (const col of columns) {
+      const optional = col.nullable || col.defaultValue !== null ? '?' : '';
+      lines.push(`        ${propertyName(col.name)}${optional}: ${pgTypeToTs(col.type)}${col.nullable ? ' | null' : ''};`);
+    }
+    lines.push('      };');
+
+    lines.push('      Update: {');
+    for (const col of columns) {
+      lines.push(`        ${propertyName(col.name)}?: ${pgTypeToTs(col.type)}${col.nullable ? ' | null' : ''};`);
+    }
+    lines.push('      };');
+
+    lines.push('    };');
+  }
+
+  lines.push('  };', '};', '');
+  return lines.join('\n');
+}
+
+/**
+ * Generate a `Database` type from the live schema using listTables and getTableMetadata
+ *
+ * @example
+ * const { data } = await generateTypes(client.db);
+ * await fs.writeFile('database.types.ts', data);
+ */
+export async function generateTypes(
+  db: DatabaseClient,
+  options: GenerateTypesOptions = {}
+): Promise<ApiResult<string>> {
+  const { signal } = options;
+  let names = options.tables;
+
+  if (!names) {
+    const tables = await db.listTables({ signal });
+    if (tables.error) {
+      return tables;
+    }
+    names = tables.data;
+  }
+
+  const metadata: TableMetadata[] = [];
+  for (const name of names) {
+    const result = await db.getTableMetadata(name, { signal });
+    if (result.error) {
+      return result;
+    }
+    metadata.push({ ...result.data, name: result.data.name || name });
+  }
+
+  return { data: renderTypes(metadata, options.typeName), error: null };
+}
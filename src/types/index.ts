@@ -1,17 +1,189 @@
+import type { ErrorCode } from '../lib/errors';
+
 // Configuration
 export interface OrbitNestConfig {
   projectSlug: string;
   apiKey: string;
   baseUrl?: string;
   timeout?: number;
+  /** Retry policy for failed requests, or false to disable retries */
+  retry?: Partial<RetryOptions> | false;
+  /** Client-side request throttling, disabled by default */
+  throttle?: ThrottleOptions;
+  /** Middleware applied to every request, in order */
+  middleware?: Middleware[];
+  /** Fetch implementation used for all requests (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Headers sent with every request; per-request headers take precedence */
+  headers?: Record<string, string>;
+  /** User-Agent header sent with every request */
+  userAgent?: string;
+  /** Throw an OrbitNestError instead of resolving to `{ data: null, error }` */
+  throwOnError?: boolean;
+  /** Session handling for the auth client */
+  auth?: AuthOptions;
+}
+
+export interface AuthOptions {
+  /** Refresh the session before it expires (default true) */
+  autoRefresh?: boolean;
+  /** Seconds before expiry at which the session is refreshed (default 60) */
+  refreshSkew?: number;
+  /**
+   * Send the signed-in user's access token instead of the API key on
+   * database, storage and functions requests, so RLS policies apply (default false)
+   */
+  useSessionForRequests?: boolean;
+  /** Where to persist the session across restarts (default: memory only) */
+  storage?: SessionStorage;
+  /** Key the session is stored under (default `orbitnest.<projectSlug>.session`) */
+  storageKey?: string;
+  /** Keys and claims used by auth.verifyToken() */
+  jwt?: JwtVerifyOptions;
+}
+
+/**
+ * How access tokens are verified locally
+ * Set `secret` for HS256/384/512 tokens or `jwksUrl`/`jwks` for RS, PS, ES and EdDSA tokens.
+ */
+export interface JwtVerifyOptions {
+  /** Shared secret for HMAC-signed tokens */
+  secret?: string | Uint8Array;
+  /** Absolute URL or API path of the JSON Web Key Set; fetched on first use and when an unknown `kid` appears */
+  jwksUrl?: string;
+  /** Static JSON Web Key Set */
+  jwks?: { keys: Jwk[] };
+  /** Accepted `iss` values */
+  issuer?: string | string[];
+  /** Accepted `aud` values; the token must contain at least one */
+  audience?: string | string[];
+  /** Accepted `alg` values (default: every algorithm the configured key supports) */
+  algorithms?: string[];
+  /** Seconds of clock skew allowed when checking `exp` and `nbf` (default 0) */
+  clockTolerance?: number;
+  /** Reject tokens without an `exp` claim (default true) */
+  requireExp?: boolean;
+}
+
+export interface Jwk {
+  kty: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Claims of an OrbitNest access token
+ */
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  role?: string;
+  email?: string;
+  session_id?: string;
+  user_metadata?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * Adapter for persisting the serialized auth session
+ */
+export interface SessionStorage {
+  get(key: string): string | null | Promise<string | null>;
+  set(key: string, value: string): void | Promise<void>;
+  remove(key: string): void | Promise<void>;
+}
+
+export interface ThrottleOptions {
+  /** Sustained request rate (default unlimited) */
+  requestsPerSecond?: number;
+  /** Requests allowed in a burst before throttling applies (default requestsPerSecond) */
+  burst?: number;
+  /** Maximum requests in flight at once (default unlimited) */
+  maxConcurrency?: number;
+  /** Wait for the window to reset when the server reports no remaining quota (default true) */
+  respectServerLimit?: boolean;
 }
 
 // HTTP
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+export interface RetryOptions {
+  /** Total attempts including the first one (default 3) */
+  maxAttempts: number;
+  /** Delay before the first retry in ms, doubled on each attempt (default 300) */
+  baseDelay: number;
+  /** Upper bound for a single delay in ms, including Retry-After (default 10000) */
+  maxDelay: number;
+  /** Randomize delays between 0 and the computed backoff (default true) */
+  jitter: boolean;
+  /** Response statuses that are retried (default 408, 429, 502, 503, 504) */
+  retryOn: number[];
+  /** Methods that are retried (default GET, PUT, DELETE) */
+  methods: HttpMethod[];
+}
+
 export interface RequestOptions {
-  method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  method?: HttpMethod;
   body?: unknown;
   headers?: Record<string, string>;
   timeout?: number;
+  /**
+   * Override the client retry policy for this request
+   * `true` retries regardless of method, `false` disables retries
+   */
+  retry?: Partial<RetryOptions> | boolean;
+  /**
+   * Parse successful responses as JSON (default), return them as a Blob, or return the
+   * unread Response (`response`, which also treats 304 as success)
+   */
+  responseType?: 'json' | 'blob' | 'response';
+  /** Cancel the request; combined with the timeout */
+  signal?: AbortSignal;
+  /**
+   * Credential to send: the project API key (default), the user's access token
+   * (`session`; fails with NO_SESSION instead of sending the API key when signed out), the access token when `auth.useSessionForRequests` is enabled (`auto`), or nothing (`none`)
+   */
+  auth?: 'apiKey' | 'session' | 'auto' | 'none';
+}
+
+/**
+ * Options accepted by every client method to cancel the request
+ */
+export interface SignalOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * An outgoing request as seen by middleware
+ * Middleware may mutate it in place or return a replacement.
+ */
+export interface RequestContext {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  /** Serialized request body */
+  body?: BodyInit;
+  /** The options passed to HttpClient.request() */
+  options: RequestOptions;
+  /** 1 for the first attempt, incremented on each retry */
+  attempt: number;
+}
+
+/**
+ * Hooks around every HTTP request
+ * onRequest runs in registration order; onResponse and onError run in reverse.
+ * onError may recover by returning a Response, otherwise the error propagates.
+ */
+export interface Middleware {
+  onRequest?(context: RequestContext): RequestContext | void | Promise<RequestContext | void>;
+  onResponse?(response: Response, context: RequestContext): Response | void | Promise<Response | void>;
+  onError?(error: unknown, context: RequestContext): Response | void | Promise<Response | void>;
 }
 
 export interface ApiResponse<T = unknown> {
@@ -23,13 +195,25 @@ export interface ApiError {
   data: null;
   error: {
     message: string;
-    code?: string;
+    code?: ErrorCode;
     status?: number;
+    /** Response body returned by the server, if any */
+    details?: unknown;
   };
 }
 
 export type ApiResult<T> = ApiResponse<T> | ApiError;
 
+/**
+ * Latest quota reported by the X-RateLimit-* response headers
+ */
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  reset: Date;
+  updatedAt: Date;
+}
+
 // Database
 export interface QueryResult<T = Record<string, unknown>> {
   rows: T[];
@@ -37,6 +221,24 @@ export interface QueryResult<T = Record<string, unknown>> {
   fields?: Array<{ name: string; dataType: string }>;
 }
 
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+/**
+ * Row shapes for one table, as emitted by the type generator
+ */
+export interface GenericTable {
+  Row: Record<string, unknown>;
+  Insert: Record<string, unknown>;
+  Update: Record<string, unknown>;
+}
+
+/**
+ * Schema type accepted by createClient<Database>()
+ */
+export interface GenericDatabase {
+  tables: Record<string, GenericTable>;
+}
+
 export interface TableMetadata {
   name: string;
   schema: string;
@@ -55,6 +257,8 @@ export interface PaginationOptions {
   sortOrder?: 'ASC' | 'DESC';
 }
 
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'like' | 'ilike' | 'is';
+
 export interface RlsPolicy {
   name: string;
   command: 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'ALL';
@@ -68,6 +272,7 @@ export interface FunctionInvokeOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
   body?: unknown;
   headers?: Record<string, string>;
+  signal?: AbortSignal;
 }
 
 export interface FunctionResponse<T = unknown> {
@@ -90,6 +295,8 @@ export interface AuthSession {
   access_token: string;
   refresh_token: string;
   expires_in: number;
+  /** Expiry time in seconds since epoch, computed from expires_in when the session is stored */
+  expires_at?: number;
   token_type: string;
   user: AuthUser;
 }
@@ -100,6 +307,30 @@ export interface SignUpCredentials {
   metadata?: Record<string, unknown>;
 }
 
+export interface SignUpOptions extends SignalOptions {
+  /** The project returns a session from `/signup` right away; store it instead of expecting an OTP step */
+  immediateSession?: boolean;
+}
+
+export interface EmailOtpCredentials {
+  email: string;
+  /** Stored as user_metadata when the account is created */
+  metadata?: Record<string, unknown>;
+}
+
+export interface VerifyOtpOptions {
+  email: string;
+  code: string;
+}
+
+/** Response of the steps that email a one-time code */
+export interface OtpResponse {
+  success: boolean;
+  message: string;
+  email: string;
+  expires_in: number;
+}
+
 export interface SignInCredentials {
   email: string;
   password: string;
@@ -114,8 +345,28 @@ export interface PasswordResetOptions {
   password: string;
 }
 
+export interface ChangePasswordOptions {
+  oldPassword: string;
+  newPassword: string;
+}
+
 export interface UpdateUserOptions {
   email?: string;
   password?: string;
   metadata?: Record<string, unknown>;
 }
+
+export type AuthChangeEvent =
+  | 'SIGNED_IN'
+  | 'SIGNED_UP'
+  | 'TOKEN_REFRESHED'
+  | 'SIGNED_OUT'
+  | 'USER_UPDATED'
+  | 'USER_DELETED'
+  | 'SESSION_EXPIRED';
+
+export type AuthStateChangeCallback = (event: AuthChangeEvent, session: AuthSession | null) => void;
+
+export interface AuthSubscription {
+  unsubscribe(): void;
+}